@@ -52,4 +52,11 @@ describe("Distributed package Test", () => {
 
         expect(config.getValue("foo")).toBe("newValue");
     });
+
+    test("Node entry exports the file loaders", async () => {
+        const node = await import("../dist/node.es.js");
+        expect(typeof node.loadEnvironmentFiles).toBe("function");
+        expect(typeof node.readConfigFiles).toBe("function");
+        expect(typeof node.parseConfigFile).toBe("function");
+    });
 });
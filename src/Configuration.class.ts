@@ -1,8 +1,50 @@
-import { read } from "fs";
 import { ConfigurationError } from "./ConfigurationError";
-import { CONFIGLEVEL } from "./enums/CONFIGLEVEL";
+import { CONFIGLEVEL, ConfigLevel } from "./enums/CONFIGLEVEL";
 import { ERRORCODES } from "./enums/ERRORCODES";
-import { ConfigValue, IConfig, IConfigurationObject } from "./interfaces/IConfigurationObject";
+import { ConfigSchema, IConfigKeySchema, ValidationPolicy } from "./interfaces/IConfigSchema";
+import { ConfigMetadata, IConfigKeyMetadata } from "./interfaces/IConfigMetadata";
+import { ConfigData, ConfigObject, ConfigValue, IConfig, IConfigurationObject } from "./interfaces/IConfigurationObject";
+import { ChangedValues, ConfigPath, PathValue } from "./interfaces/IConfigPaths";
+import { IPersistedUserConfig, IPersistenceAdapter } from "./interfaces/IPersistenceAdapter";
+import { IConfigChangeRecord } from "./interfaces/IConfigChangeRecord";
+import { IHistoryEntry } from "./interfaces/IHistoryEntry";
+import { IConfigSnapshot, ISnapshotImportOptions, SNAPSHOT_FORMAT_VERSION } from "./interfaces/IConfigSnapshot";
+import { IConfigStoreSnapshot } from "./interfaces/IConfigStoreSnapshot";
+import { VERSION } from "./version";
+import { IBlockedWrite, IConfigExplanation } from "./interfaces/IConfigExplanation";
+import { WritePolicies } from "./interfaces/IWritePolicies";
+import { ComputedKeys } from "./interfaces/IComputedKeys";
+import { DeprecatedKeys, IConfigMigration } from "./interfaces/IMigrations";
+import { IEvaluationContext, IFlagDefinition, IFlagEvaluation } from "./interfaces/IFeatureFlag";
+import { evaluateFlag, isFlagDefinition, validateFlagDefinition } from "./helpers/featureFlags";
+import { findWritePolicy } from "./helpers/writePolicies";
+import {
+    IBackendPushMessage,
+    IBackendPushOptions,
+    IBackendPushSocket,
+    IBackendRetryOptions,
+    IBackendStatus,
+} from "./interfaces/IBackendUpdate";
+import { validateConfigValue } from "./validation/validateConfigValue";
+import {
+    IEnvironmentLoaderOptions,
+    IEnvironmentLoaderResult,
+    loadEnvironmentVariables,
+} from "./loaders/environmentVariables";
+import { createConfigurationObject, isConfigurationObject, unwrapConfigValue } from "./helpers/configurationObjects";
+import { computeBackoffDelay } from "./helpers/backoff";
+import {
+    deepClone,
+    deepFreeze,
+    deepMerge,
+    deleteIn,
+    getIn,
+    isDeepEqual,
+    isPath,
+    isPlainObject,
+    setIn,
+    splitPath,
+} from "./helpers/objectPaths";
 
 /**
  * Options for the configuration instance
@@ -13,10 +55,15 @@ interface IConfigurationOptions<T extends IConfig> {
      * Using this option will make the constructor return the same instance
      * every time it is called
      *
-     * If multiple different configurations are needed, do not use this option!
+     * If multiple different configurations are needed, give each one its own instanceName.
      */
     singleton: boolean;
 
+    /**
+     * Name of the singleton instance in the instance registry. Defaults to "default".
+     */
+    instanceName?: string;
+
     /**
      * Backend update function that will be called periodically to fetch new configuration values
      * @param currentConfig
@@ -34,18 +81,167 @@ interface IConfigurationOptions<T extends IConfig> {
      */
     backendUpdateStartImmediate: boolean;
 
+    /**
+     * Retry failed backend updates with exponential backoff. Missing values use the defaults
+     * of 5 attempts starting from 1 second, doubling up to 60 seconds with ±20% jitter.
+     */
+    backendRetry?: Partial<IBackendRetryOptions>;
+
+    /**
+     * Receive BACKEND level updates pushed over an EventSource or WebSocket like connection.
+     * The connection is opened when the instance is created. While it is disconnected the
+     * backendUpdateFn is polled, if provided.
+     */
+    backendPush?: IBackendPushOptions;
+
+    /**
+     * Called every time the backend update function fails. Defaults to logging a warning.
+     * @param error
+     * @param status Status after the failure, including the time of the next attempt
+     * @returns
+     */
+    onBackendError?: (error: ConfigurationError, status: IBackendStatus) => void;
+
+    /**
+     * Configuration levels from the lowest to the highest precedence. The first level must be
+     * CONFIGLEVEL.DEFAULT, other built-in levels can be left out and custom levels added anywhere
+     * after it. Defaults to DEFAULT, ENVIRONMENT, BACKEND, USER and DYNAMIC.
+     */
+    levels: ConfigLevel[];
+
     /**
      * Keys that should be set to read-only and cannot be overridden by user or dynamic configurations
      */
     readOnlyKeys: (keyof T)[];
+
+    /**
+     * Keys holding secrets like API tokens. Their values are redacted as "***" everywhere except
+     * getSecret(), and they are never persisted or sent to the backendUpdateFn.
+     */
+    secretKeys: (keyof T)[];
+
+    /**
+     * Which levels may write which keys. Keys can be dot paths or patterns with `*`.
+     * Writes from other levels are blocked, reported to onBlockedWrite and make the setter return false.
+     */
+    writePolicies?: WritePolicies;
+
+    /**
+     * Called for every write blocked by writePolicies or readOnlyKeys
+     * @param write
+     * @returns
+     */
+    onBlockedWrite?: (write: IBlockedWrite<T>) => void;
+
+    /**
+     * Keys derived from other keys with a compute function and a list of dependencies. Computed keys do
+     * not need a default value and can not be written on any level.
+     */
+    computed?: ComputedKeys<T>;
+
+    /**
+     * Optional validation rules per key. The rules are enforced on every configuration level,
+     * including the default values given to the constructor.
+     */
+    schema?: ConfigSchema<T>;
+
+    /**
+     * What to do with values that fail the schema validation. Defaults to "reject".
+     */
+    validationPolicy: ValidationPolicy;
+
+    /**
+     * Optional labels, descriptions, categories and input kinds per key, used by the ConfigForm component
+     */
+    metadata?: ConfigMetadata<T>;
+
+    /**
+     * Adapter used to store the USER level values. The user configuration is loaded from the adapter
+     * when the instance is created and saved every time it changes.
+     */
+    persistenceAdapter?: IPersistenceAdapter;
+
+    /**
+     * Namespace for the storage key. The user configuration is stored with the key `<namespace>:user`
+     */
+    persistenceNamespace: string;
+
+    /**
+     * Delay in milliseconds to wait for more changes before saving the user configuration.
+     * With 0 every change is saved immediately.
+     */
+    persistenceDebounceMs: number;
+
+    /**
+     * Called when loading or saving the user configuration fails. Defaults to logging a warning.
+     * @param error
+     * @returns
+     */
+    onPersistenceError?: (error: ConfigurationError) => void;
+
+    /**
+     * Version of the configuration schema. Persisted user configurations and snapshots are stored
+     * with the version and migrated with the migrations when they are loaded.
+     */
+    schemaVersion?: number;
+
+    /**
+     * Migrations applied in the order of their versions to stored values older than schemaVersion
+     */
+    migrations?: IConfigMigration[];
+
+    /**
+     * Renamed keys. The old keys still read and write the replacement and log a warning once.
+     */
+    deprecatedKeys?: DeprecatedKeys<T>;
+
+    /**
+     * How many changes of the USER and DYNAMIC levels are kept in the history for getHistory(),
+     * undo() and redo(). Defaults to 0, which disables the history.
+     */
+    historyLimit: number;
 }
 
 interface IListener<T extends IConfig> {
     id: string;
     keys: (keyof T)[];
-    callback: (changedKeys: Partial<T>) => void;
+    callback: (changedKeys: Partial<T>, changes: IConfigChangeRecord<T>[]) => void;
 }
 
+const DEFAULT_BACKEND_RETRY: IBackendRetryOptions = {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 60000,
+    multiplier: 2,
+    jitter: 0.2,
+};
+
+/**
+ * Name of the instance registry entry used when no name is given
+ */
+const DEFAULT_INSTANCE_NAME = "default";
+
+/**
+ * Replacement for the values of secret keys
+ */
+const REDACTED = "***";
+
+/**
+ * How many blocked writes are kept for explain()
+ */
+const MAX_BLOCKED_WRITES = 100;
+
+/**
+ * Default configuration levels in the order they are merged, from lowest to highest precedence
+ */
+const DEFAULT_LEVELS: ConfigLevel[] = [
+    CONFIGLEVEL.DEFAULT,
+    CONFIGLEVEL.ENVIRONMENT,
+    CONFIGLEVEL.BACKEND,
+    CONFIGLEVEL.USER,
+    CONFIGLEVEL.DYNAMIC,
+];
+
 /**
  * Configuration class to manage application configurations on multiple levels
  */
@@ -54,10 +250,19 @@ export class Configuration<T extends IConfig> {
         singleton: false,
         backendUpdateIntervalMs: 60000,
         backendUpdateStartImmediate: false,
+        levels: DEFAULT_LEVELS,
         readOnlyKeys: [],
+        secretKeys: [],
+        validationPolicy: "reject",
+        persistenceNamespace: "hcconfig",
+        persistenceDebounceMs: 0,
+        historyLimit: 0,
     };
 
-    private static instance: Configuration<any> | null = null;
+    /**
+     * Registry of the named singleton instances
+     */
+    private static instances: Map<string, Configuration<any>> = new Map();
 
     /**
      * Default configuration values are provided during the construction
@@ -66,26 +271,30 @@ export class Configuration<T extends IConfig> {
     private readonly defaultConfig: T = {} as T;
 
     /**
-     * Environmental configurations values
+     * Configuration values of all other levels than the default level. The stores are replaced,
+     * never modified, so that previous stores can be compared when detecting changes.
      */
-    private environmentConfig: Partial<T> = {};
+    private levelStores: Map<ConfigLevel, Partial<T>> = new Map();
 
     /**
-     * Backend configuration values are stored here
+     * Computed keys in the order they are computed, dependencies first
      */
-    private backendConfig: Partial<T> = {};
+    private computedOrder: string[] = [];
 
     /**
-     * User configuration values are stored here
+     * Latest computed values with the dependency values they were computed from
      */
-    private userConfig: Partial<T> = {};
+    private computedCache: Map<string, { inputs: (ConfigData | undefined)[]; value: ConfigData }> = new Map();
 
     /**
-     * Dynamic configuration values are temporary and will not be stored anywhere;
+     * Context the feature flags are evaluated against, set with setEvaluationContext()
      */
-    private dynamicConfig: Partial<T> = {};
+    private evaluationContext: IEvaluationContext | null = null;
 
-    private changedKeysBuffer: Set<keyof T> = new Set();
+    /**
+     * Flag definitions of the keys whose effective value is a feature flag
+     */
+    private flagDefinitions: Map<string, IFlagDefinition> = new Map();
 
     /**
      * Current full configuration object
@@ -94,16 +303,139 @@ export class Configuration<T extends IConfig> {
      */
     private config: T | null = null;
 
+    /**
+     * The level stores the current config was built from. Used to resolve the previous
+     * level of nested values when detecting changes.
+     */
+    private builtLevelStores: Partial<Record<ConfigLevel, Partial<T>>> = {};
+
+    /**
+     * State before the outermost batch() started. Used for rolling back and for
+     * notifying the listeners of the combined changes when the batch ends.
+     */
+    private batchState: {
+        config: T;
+        flagDefinitions: Map<string, IFlagDefinition>;
+        stores: Partial<Record<ConfigLevel, Partial<T>>>;
+        persistencePending: boolean;
+        undoStack: IHistoryEntry<T>[][];
+        redoStack: IHistoryEntry<T>[][];
+    } | null = null;
+
+    /**
+     * Deprecated keys that have already been warned about
+     */
+    private warnedDeprecatedKeys: Set<string> = new Set();
+
+    /**
+     * Latest writes that were blocked because the key is read-only
+     */
+    private blockedWrites: IBlockedWrite<T>[] = [];
+
+    /**
+     * Recorded changes of the USER and DYNAMIC levels, oldest first
+     */
+    private history: IHistoryEntry<T>[] = [];
+
+    /**
+     * Changes recorded since the last build, committed to the history when the listeners are notified
+     */
+    private pendingHistory: IHistoryEntry<T>[] = [];
+
+    /**
+     * Groups of changes made by a single write or batch that undo() and redo() revert and reapply
+     */
+    private undoStack: IHistoryEntry<T>[][] = [];
+    private redoStack: IHistoryEntry<T>[][] = [];
+
+    /**
+     * Id of the latest history entry
+     */
+    private historyId: number = 0;
+
     /**
      * Listeners subscribed to configuration changes
      */
     private listeners: IListener<T>[] = [];
 
+    /**
+     * Listeners subscribed to the history with subscribeToHistory()
+     */
+    private historyListeners: ((entries: IHistoryEntry<T>[]) => void)[] = [];
+
+    /**
+     * Revision of the effective values, increased whenever the listeners are notified of changes
+     */
+    private revision: number = 0;
+
+    /**
+     * Snapshot returned by getSnapshot() for the current revision
+     */
+    private storeSnapshot: IConfigStoreSnapshot<T> | null = null;
+
     /**
      * Backend update timeout for dynamic backend updates
      */
     private backendUpdateTimeout: NodeJS.Timeout | null = null;
 
+    /**
+     * State of the backend auto-update returned by getBackendStatus()
+     */
+    private backendStatus: IBackendStatus = {
+        running: false,
+        lastSuccessAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        nextRunAt: null,
+        pushConnected: false,
+    };
+
+    /**
+     * Incremented every time the auto-update is stopped, so that a request still in flight
+     * from a stopped run does not apply its result or schedule new updates
+     */
+    private backendRunId: number = 0;
+
+    /**
+     * Current push connection or null when disconnected
+     */
+    private pushSocket: IBackendPushSocket | null = null;
+
+    /**
+     * True between startBackendPush() and stopBackendPush()
+     */
+    private pushActive: boolean = false;
+
+    /**
+     * Timeout for the next reconnect attempt of the push connection
+     */
+    private pushReconnectTimeout: NodeJS.Timeout | null = null;
+
+    /**
+     * Failed connection attempts since the last successful connection
+     */
+    private pushReconnectAttempts: number = 0;
+
+    /**
+     * True when the polling was started because the push connection was lost
+     */
+    private pushPollingFallback: boolean = false;
+
+    /**
+     * Resolves when the user configuration has been loaded from the persistence adapter
+     */
+    private hydration: Promise<void> = Promise.resolve();
+
+    /**
+     * True while the persisted user configuration is applied, so that it is not saved right back
+     */
+    private hydrating: boolean = false;
+
+    /**
+     * Timeout for the debounced save of the user configuration
+     */
+    private persistenceTimeout: NodeJS.Timeout | null = null;
+
     //=============================================================================
     // CONSTRUCTOR
     //=============================================================================
@@ -115,21 +447,47 @@ export class Configuration<T extends IConfig> {
      * @param options
      */
     constructor(defaultConfig: T, options: Partial<IConfigurationOptions<T>> = {}) {
-        if (Configuration.instance && options.singleton) {
-            return Configuration.instance;
+        const instanceName = options.instanceName ?? DEFAULT_INSTANCE_NAME;
+        const instance = Configuration.instances.get(instanceName);
+        if (instance && options.singleton) {
+            return instance;
         }
 
         this.options = { ...this.options, ...options };
 
-        this.defaultConfig = this.buildDefaultValues(defaultConfig);
+        this.validateLevels(this.options.levels);
+        this.options.levels.forEach((level) => {
+            if (level !== CONFIGLEVEL.DEFAULT) {
+                this.levelStores.set(level, {});
+            }
+        });
+
+        // Computed keys get their value from the compute function, not from the defaults
+        const defaults = Object.keys(defaultConfig).reduce((acc, key) => {
+            if (!this.isComputed(key)) {
+                acc[key as keyof T] = defaultConfig[key as keyof T];
+            }
+            return acc;
+        }, {} as T);
+
+        // Defaults must contain every key, so with the "warn" policy invalid defaults are only reported
+        this.validateConfig(defaults, CONFIGLEVEL.DEFAULT);
+        this.defaultConfig = this.buildDefaultValues(defaults);
+        this.computedOrder = this.sortComputedKeys();
         this.buildConfig();
+        this.hydration = this.hydrateUserConfig();
 
         if (this.options.singleton) {
-            Configuration.instance = this;
+            Configuration.instances.set(instanceName, this);
         }
 
         if (this.options.backendUpdateFn && this.options.backendUpdateStartImmediate) {
-            this.runBackendAutoUpdate();
+            // Failures are reported through onBackendError and retried
+            this.startBackendAutoUpdate().catch(() => undefined);
+        }
+
+        if (this.options.backendPush) {
+            this.startBackendPush();
         }
     }
 
@@ -138,49 +496,127 @@ export class Configuration<T extends IConfig> {
     //=============================================================================
 
     /**
-     * Get a single configuration value by its key
+     * Get a single configuration value by its key or by a dot separated path to a nested value
+     * like "http.timeoutMs". Nested objects and arrays are returned frozen.
      *
      * @param key
      * @returns
      */
-    public getValue(key: keyof T): T[keyof T] | undefined {
-        if (this.config) {
-            if (!this.config.hasOwnProperty(key)) {
-                return undefined;
-            }
+    public getValue<K extends ConfigPath<T>>(key: K): PathValue<T, K> {
+        return this.redactValue(key, this.getRawValue(key)) as PathValue<T, K>;
+    }
+
+    /**
+     * Get the real value of a secret key. Other getters return secret values redacted as "***".
+     *
+     * @param key
+     * @returns
+     */
+    public getSecret<K extends ConfigPath<T>>(key: K): PathValue<T, K> {
+        return this.getRawValue(key) as PathValue<T, K>;
+    }
 
-            const conf = this.config[key];
+    /**
+     * Types of the default values for checking loaded values, for example from configuration files. Every value is
+     * replaced with an empty value of the same type, like "" or 0, so that secrets are not revealed.
+     * Nested objects keep their keys.
+     * @returns
+     */
+    public getDefaultTypes(): Partial<T> {
+        const defaults = Configuration.helperConvertToValueObject<T>(this.defaultConfig);
+        return this.toEmptyValue(defaults as ConfigObject) as Partial<T>;
+    }
 
-            if (typeof conf === "object") {
-                const confObj = conf as IConfigurationObject;
-                return confObj.value as T[keyof T];
+    /**
+     * Get a value without redacting secrets
+     * @param key
+     * @returns
+     */
+    private getRawValue(key: keyof T): T[keyof T] | undefined {
+        if (this.config) {
+            const [root, rest] = this.resolveKey(key);
+            if (!this.config.hasOwnProperty(root)) {
+                return undefined;
             }
 
-            return this.config[key];
+            const confObj = this.config[root] as IConfigurationObject;
+            return getIn(confObj.value as ConfigData, rest) as T[keyof T] | undefined;
         }
         return undefined;
     }
 
     /**
-     * Get a ConfigValue that can should always be a shallowcopy of the internal configuration object
+     * Get a ConfigValue that can should always be a shallowcopy of the internal configuration object.
+     *
+     * When a dot separated path is given, the level tells which level provided the nested value.
+     * @param key
+     * @returns
+     */
+    public getConfig<K extends ConfigPath<T>>(key: K): IConfigurationObject<PathValue<T, K>> | undefined {
+        const confObj = this.getConfigObject(key);
+        if (!confObj) {
+            return undefined;
+        }
+        confObj.writableLevels = this.getWritableLevels(key, confObj.level);
+        return confObj as IConfigurationObject<PathValue<T, K>>;
+    }
+
+    /**
+     * Get the IConfigurationObject of a key or a nested path without the writable levels
      * @param key
      * @returns
      */
-    public getConfig(key: keyof T): ConfigValue | undefined {
+    private getConfigObject(key: keyof T): IConfigurationObject | undefined {
         if (!this.config) {
             throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
         }
-        if (typeof this.config[key] === "object") {
-            return { ...this.config[key] };
+        const [root, rest] = this.resolveKey(key);
+        const confObj = this.config[root] as IConfigurationObject | undefined;
+        if (!confObj) {
+            return undefined;
+        }
+        if (rest.length === 0) {
+            const value = this.redactValue(root, confObj.value as ConfigData);
+            return createConfigurationObject(value, confObj.level, confObj.readonly);
         }
-        return this.config[key];
-    }
 
-    public static getValue<U extends IConfig>(key: keyof U): U[keyof U] | undefined {
-        if (Configuration.instance && Configuration.instance.config) {
-            return Configuration.instance.getValue(key);
+        const value = getIn(confObj.value as ConfigData, rest);
+        if (value === undefined) {
+            return undefined;
         }
-        throw new ConfigurationError(ERRORCODES.NO_CONFIGURATION_INSTANCE);
+        return createConfigurationObject(
+            this.redactValue(root, value),
+            this.resolvePathLevel(root, rest),
+            confObj.readonly
+        );
+    }
+
+    /**
+     * Get a value from a registered instance
+     * @param key
+     * @param name Name of the instance, defaults to the default instance
+     * @returns
+     */
+    public static getValue<U extends IConfig, K extends ConfigPath<U> = ConfigPath<U>>(
+        key: K,
+        name?: string
+    ): PathValue<U, K> {
+        return Configuration.getRegisteredInstance<U>(name).getValue(key);
+    }
+
+    /**
+     * Set a dynamic value on a registered instance. Follows the same write policies as setConfig().
+     * @param key
+     * @param value
+     * @param name Name of the instance, defaults to the default instance
+     * @returns boolean indicating if the value was set
+     */
+    public static setConfig<U extends IConfig, K extends ConfigPath<U> = ConfigPath<U>>(
+        key: K,
+        value: PathValue<U, K>,
+        name?: string
+    ): boolean {
+        return Configuration.getRegisteredInstance<U>(name).setConfig(key, value);
     }
 
     /**
@@ -190,56 +626,136 @@ export class Configuration<T extends IConfig> {
      */
     public getConfigs(): T {
         if (this.config) {
-            return { ...this.config };
+            return this.redactConfig(this.config) as T;
         }
         throw new ConfigurationError("Configuration has not been built yet.");
     }
 
-    public getConfigsForLevel(level: CONFIGLEVEL): Partial<T> {
+    /**
+     * Get the stored values of a single level. Works for the built-in and custom levels.
+     * @param level
+     * @returns
+     */
+    public getConfigsForLevel(level: ConfigLevel): Partial<T> {
         if (!this.config) {
             throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
         }
 
-        switch (level) {
-            case CONFIGLEVEL.DEFAULT:
-                return { ...this.defaultConfig };
-            case CONFIGLEVEL.ENVIRONMENT:
-                return { ...this.environmentConfig };
-            case CONFIGLEVEL.BACKEND:
-                return { ...this.backendConfig };
-            case CONFIGLEVEL.USER:
-                return { ...this.userConfig };
-            case CONFIGLEVEL.DYNAMIC:
-                return { ...this.dynamicConfig };
-        }
+        return this.redactConfig(this.getLevelStore(level));
     }
 
-    public static getConfigs<U extends IConfig>(): U {
-        if (Configuration.instance && Configuration.instance.config) {
-            return { ...Configuration.instance.config } as U;
+    /**
+     * Get an immutable snapshot of the effective values and their revision. The same object is returned
+     * until the listeners are notified of a change, inside a batch the values from before the batch are returned.
+     * Meant for external stores like React's useSyncExternalStore.
+     *
+     * @returns
+     */
+    public getSnapshot(): IConfigStoreSnapshot<T> {
+        const config = this.batchState?.config ?? this.config;
+        if (!config) {
+            throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
+        }
+
+        if (this.storeSnapshot === null || this.storeSnapshot.revision !== this.revision) {
+            const values = Object.freeze(Configuration.helperConvertToValueObject(this.redactConfig(config)) as T);
+            this.storeSnapshot = Object.freeze({
+                revision: this.revision,
+                values,
+                getValue: <K extends ConfigPath<T>>(key: K) => {
+                    const [root, rest] = this.resolveKey(key);
+                    const value = Object.prototype.hasOwnProperty.call(values, root) ? values[root] : undefined;
+                    return getIn(value as ConfigData | undefined, rest) as PathValue<T, K>;
+                },
+            });
         }
-        throw new ConfigurationError(ERRORCODES.NO_CONFIGURATION_INSTANCE);
+        return this.storeSnapshot;
+    }
+
+    /**
+     * Return a shallowcopy of the full configuration object of a registered instance
+     * @param name Name of the instance, defaults to the default instance
+     * @returns
+     */
+    public static getConfigs<U extends IConfig>(name?: string): U {
+        return Configuration.getRegisteredInstance<U>(name).getConfigs();
     }
 
     /**
-     * Get a singleton instance of Configuration
+     * Get a registered instance by name, or get the singleton instance of Configuration and create it
+     * with the given default configuration if it does not exist yet. The instance is registered with
+     * the instanceName option, defaulting to the default instance.
      * @returns
      */
+    public static getInstance<U extends IConfig>(name: string): Configuration<U>;
     public static getInstance<U extends IConfig>(
         defaultConfig?: U,
-        options?: IConfigurationOptions<U>
+        options?: Partial<IConfigurationOptions<U>>
+    ): Configuration<U>;
+    public static getInstance<U extends IConfig>(
+        defaultConfig?: U | string,
+        options?: Partial<IConfigurationOptions<U>>
     ): Configuration<U> {
-        if (Configuration.instance === null) {
-            if (!defaultConfig) {
-                throw new ConfigurationError(ERRORCODES.INSTANCE_NEEDS_DEFAULTCONFIGS);
-            }
-            Configuration.instance = new Configuration<U>(defaultConfig || ({} as U), { ...options, singleton: true });
+        if (typeof defaultConfig === "string") {
+            return Configuration.getRegisteredInstance<U>(defaultConfig);
+        }
+
+        const name = options?.instanceName ?? DEFAULT_INSTANCE_NAME;
+        const instance = Configuration.instances.get(name);
+        if (instance) {
+            return instance as Configuration<U>;
+        }
+        if (!defaultConfig) {
+            throw new ConfigurationError(ERRORCODES.INSTANCE_NEEDS_DEFAULTCONFIGS);
         }
-        return Configuration.instance as Configuration<U>;
+        return new Configuration<U>(defaultConfig, { ...options, singleton: true, instanceName: name });
+    }
+
+    /**
+     * Register an existing instance by name so that it can be accessed with the static methods.
+     * @param name
+     * @param conf
+     * @returns The registered instance
+     */
+    public static register<U extends IConfig>(name: string, conf: Configuration<U>): Configuration<U> {
+        const instance = Configuration.instances.get(name);
+        if (instance && instance !== conf) {
+            throw new ConfigurationError(ERRORCODES.INSTANCE_ALREADY_REGISTERED, undefined, {
+                reason: `Instance "${name}" is already registered`,
+            });
+        }
+        Configuration.instances.set(name, conf);
+        return conf;
+    }
+
+    /**
+     * Remove an instance from the registry. Other registered instances are not affected.
+     * @param name Name of the instance, defaults to the default instance
+     */
+    public static clearInstance(name: string = DEFAULT_INSTANCE_NAME): void {
+        Configuration.instances.delete(name);
+    }
+
+    /**
+     * Remove all instances from the registry
+     */
+    public static clearInstances(): void {
+        Configuration.instances.clear();
     }
 
-    public static clearInstance(): void {
-        Configuration.instance = null;
+    /**
+     * Get a registered instance that has been built
+     * @param name
+     * @returns
+     */
+    private static getRegisteredInstance<U extends IConfig>(name: string = DEFAULT_INSTANCE_NAME): Configuration<U> {
+        const instance = Configuration.instances.get(name);
+        if (!instance || !instance.config) {
+            throw new ConfigurationError(ERRORCODES.NO_CONFIGURATION_INSTANCE, undefined, {
+                reason: `Instance "${name}" is not registered`,
+            });
+        }
+        return instance as Configuration<U>;
     }
 
     /**
@@ -249,13 +765,28 @@ export class Configuration<T extends IConfig> {
      * @param callback
      * @returns
      */
-    public subscribe(keys: (keyof T)[] | keyof T, callback: (changedKeys: Partial<T>) => void): () => void {
-        const id = `listener-id-${this.listeners.length}-${Math.round(Math.random() * 10000)}`;
-        const listener: IListener<T> = { id, keys: Array.isArray(keys) ? keys : [keys], callback };
-        this.listeners.push(listener);
-        return () => {
-            this.listeners = this.listeners.filter((l) => l.id !== id);
-        };
+    public subscribe<K extends ConfigPath<T>>(
+        keys: K[] | K,
+        callback: (changedKeys: ChangedValues<T, K>) => void
+    ): () => void {
+        return this.addListener(keys, (changedKeys) => callback(changedKeys as unknown as ChangedValues<T, K>));
+    }
+
+    /**
+     * Subscribe to changes of the effective values of specific keys or dot separated paths. The callback
+     * receives a change record with the old and new value and level for every changed key.
+     * Listeners are only called when a value or the level providing it really changes.
+     * If no keys are given, changes of all keys are reported. Returns an unsubscribe function.
+     *
+     * @param keys
+     * @param callback
+     * @returns
+     */
+    public subscribeToChanges<K extends ConfigPath<T>>(
+        keys: K[] | K,
+        callback: (changes: IConfigChangeRecord<T>[]) => void
+    ): () => void {
+        return this.addListener(keys, (_changedKeys, changes) => callback(changes));
     }
 
     //=============================================================================
@@ -263,62 +794,112 @@ export class Configuration<T extends IConfig> {
     //=============================================================================
 
     /**
-     * Sets a dynamic configuration value
+     * Sets a dynamic configuration value. The key can also be a dot separated path to a nested value.
      *
      * @param key The configuration key to set (needs to be string)
      * @param value The new value must of the same type as defined in T
-     * @return boolean indicating if the value was set (false if the key is read-only)
+     * @param source Optional actor or source tag stored in the history
+     * @return boolean indicating if the value was set (false if the write was blocked or the value dropped as invalid)
      */
-    public setConfig(key: keyof T, value: ConfigValue): boolean {
+    public setConfig<K extends ConfigPath<T>>(key: K, value: PathValue<T, K>, source?: string): boolean {
         if (!this.config) {
             throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
         }
+        const target = this.resolveDeprecatedKey(key);
 
-        const conf = this.getConfig(key);
+        const conf = this.getConfigObject(target);
 
         if (!conf) {
             throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_KEY);
         }
 
-        // If this key is read-only, do not allow setting it
-        if (this.options.readOnlyKeys.includes(key)) {
+        // If the dynamic level may not write this key, do not allow setting it
+        if (!this.canWrite(target, CONFIGLEVEL.DYNAMIC)) {
+            this.recordBlockedWrite(target, CONFIGLEVEL.DYNAMIC, value as ConfigValue);
             return false;
         }
 
-        if (conf && typeof conf === "object") {
-            const confObj = { ...conf } as IConfigurationObject;
-            confObj.value = value as T[keyof T];
-
-            if (conf.level === CONFIGLEVEL.DEFAULT) {
-                confObj.readonly = true;
-            }
-
-            confObj.level = CONFIGLEVEL.DYNAMIC;
-
-            confObj.readonly = false;
-            this.dynamicConfig[key] = { ...confObj } as T[keyof T];
-        } else {
-            const newConfObj: IConfigurationObject = {
-                value: value as T[keyof T],
-                level: CONFIGLEVEL.DYNAMIC,
-            };
-            this.dynamicConfig[key] = { ...newConfObj } as T[keyof T];
+        // If the value is invalid and the policy is to warn, the value is dropped
+        const validated = this.validateConfig({ [target]: value as ConfigValue } as Partial<T>, CONFIGLEVEL.DYNAMIC);
+        if (!(target in validated)) {
+            return false;
         }
 
-        this.changedKeysBuffer.add(key);
-        this.buildConfig();
+        this.applyAtomically(() => {
+            this.applyLevelConfig(CONFIGLEVEL.DYNAMIC, validated, false, source);
+            this.buildConfig();
+        });
         return true;
     }
 
     /**
-     * Delete a dynamic configuration value
+     * Check a value against the schema of the key without writing it, for example to validate a form.
      *
      * @param key
+     * @param value
+     * @returns The reason why the value is invalid or null if the value is valid
      */
-    public deleteConfig(key: keyof T): void {
-        delete this.dynamicConfig[key];
-        this.changedKeysBuffer.add(key);
-        this.buildConfig();
+    public validate<K extends ConfigPath<T>>(key: K, value: PathValue<T, K>): string | null {
+        const target = this.resolveDeprecatedKey(key);
+        const rawValue = unwrapConfigValue(value as ConfigValue);
+        const schema = this.options.schema;
+        const invalid = isFlagDefinition(rawValue)
+            ? this.findInvalidFlag(schema, target, rawValue)
+            : schema
+              ? this.findInvalidValue(schema, target, rawValue)
+              : null;
+        return invalid?.reason ?? null;
+    }
+
+    /**
+     * Delete a dynamic configuration value. If a dot separated path is given only the nested value is removed.
+     *
+     * @param key
+     * @param source Optional actor or source tag stored in the history
+     */
+    public deleteConfig(key: ConfigPath<T>, source?: string): void {
+        this.deleteLevelConfig(CONFIGLEVEL.DYNAMIC, [key], source);
+    }
+
+    /**
+     * Delete values of any level except the default level, for example to clear the user overrides of some keys.
+     * If a dot separated path is given only the nested value is removed.
+     *
+     * @param level A built-in or a custom level declared in the levels option
+     * @param keys
+     * @param source Optional actor or source tag stored in the history of the USER and DYNAMIC levels
+     */
+    public deleteLevelConfig(level: ConfigLevel, keys: ConfigPath<T>[], source?: string): void {
+        if (level === CONFIGLEVEL.DEFAULT) {
+            throw new ConfigurationError(ERRORCODES.DEFAULT_LEVEL_IS_IMMUTABLE);
+        }
+        const previousStore = this.getLevelStore(level);
+
+        // Level stores are replaced instead of modified so that the previous store can be used for change detection
+        const levelConfig: Partial<T> = { ...previousStore };
+        keys.forEach((key) => {
+            const [root, rest] = this.resolveKey(key);
+            const current = levelConfig[root] as IConfigurationObject | undefined;
+            const value = current && rest.length > 0 ? deleteIn(current.value as ConfigData, rest) : undefined;
+            if (current && value !== undefined) {
+                levelConfig[root as keyof T] = createConfigurationObject(
+                    deepFreeze(value),
+                    level,
+                    current.readonly
+                ) as T[keyof T];
+            } else {
+                delete levelConfig[root];
+            }
+        });
+
+        this.applyAtomically(() => {
+            this.setLevelStore(level, levelConfig);
+            this.recordHistory(level, previousStore, "write", source);
+            if (level === CONFIGLEVEL.USER) {
+                this.schedulePersistence();
+            }
+            this.buildConfig();
+        });
     }
 
     /**
@@ -326,23 +907,37 @@ export class Configuration<T extends IConfig> {
      * are merged with existing ones. If `override` is true, existing values
      * are replaced entirely.
      *
+     * Keys can be dot separated paths like "http.timeoutMs" to override a single nested value.
+     *
      * @param config
      * @param override
      */
-    public setEnvironmentConfig(config: Partial<T>, override?: boolean) {
-        if (override === true) {
-            const oldEnv = { ...this.environmentConfig };
-            this.environmentConfig = this.buildConfigurationObjects(config, CONFIGLEVEL.ENVIRONMENT) as Partial<T>;
-            this.updateChangedKeysBufferWithPartialConfig(config, oldEnv);
-        } else {
-            this.environmentConfig = {
-                ...this.environmentConfig,
-                ...this.buildConfigurationObjects(config, CONFIGLEVEL.ENVIRONMENT),
-            };
-            this.updateChangedKeysBufferWithPartialConfig(config);
-        }
+    public setEnvironmentConfig(config: Partial<T>, override?: boolean): boolean {
+        return this.setLevelConfig(CONFIGLEVEL.ENVIRONMENT, config, override);
+    }
 
-        this.buildConfig();
+    /**
+     * Set environment configuration values from environment variables like process.env or import.meta.env.
+     *
+     * Variable names are mapped to keys with the prefix and name map in the options and the values are
+     * coerced to the type of the default value of the key. Unknown and unparsable variables are not applied
+     * but returned in the result.
+     *
+     * @param env
+     * @param options
+     * @returns The applied values and the variables that could not be used
+     */
+    public loadEnvironmentVariables(
+        env: Record<string, string | boolean | undefined>,
+        options: IEnvironmentLoaderOptions = {}
+    ): IEnvironmentLoaderResult<T> {
+        const result = loadEnvironmentVariables<T>(
+            Configuration.helperConvertToValueObject<T>(this.defaultConfig),
+            env,
+            options
+        );
+        this.setEnvironmentConfig(result.config);
+        return result;
     }
 
     /**
@@ -353,19 +948,8 @@ export class Configuration<T extends IConfig> {
      * @param config
      * @param override
      */
-    public setBackendConfig(config: Partial<T>, override?: boolean) {
-        if (override === true) {
-            const oldBackend = { ...this.backendConfig };
-            this.backendConfig = this.buildConfigurationObjects(config, CONFIGLEVEL.BACKEND) as Partial<T>;
-            this.updateChangedKeysBufferWithPartialConfig(config, oldBackend);
-        } else {
-            this.backendConfig = {
-                ...this.backendConfig,
-                ...this.buildConfigurationObjects(config, CONFIGLEVEL.BACKEND),
-            };
-            this.updateChangedKeysBufferWithPartialConfig(config);
-        }
-        this.buildConfig();
+    public setBackendConfig(config: Partial<T>, override?: boolean): boolean {
+        return this.setLevelConfig(CONFIGLEVEL.BACKEND, config, override);
     }
 
     /**
@@ -375,28 +959,204 @@ export class Configuration<T extends IConfig> {
      *
      * @param config
      * @param override
+     * @param source Optional actor or source tag stored in the history
      */
-    public setUserConfig(config: Partial<T>, override?: boolean) {
-        // Filter out all read-only keys from the provided config
-        const filteredConfig: Partial<T> = Object.keys(config).reduce((acc, key) => {
-            if (!this.options.readOnlyKeys.includes(key as keyof T)) {
-                acc[key as keyof T] = config[key as keyof T];
+    public setUserConfig(config: Partial<T>, override?: boolean, source?: string): boolean {
+        return this.setLevelConfig(CONFIGLEVEL.USER, config, override, source);
+    }
+
+    /**
+     * Set or update the values of any level except the default level. By default, new values
+     * are merged with existing ones. If `override` is true, existing values are replaced entirely.
+     *
+     * Keys the level may not write because of writePolicies or readOnlyKeys are left out.
+     *
+     * @param level A built-in or a custom level declared in the levels option
+     * @param config
+     * @param override
+     * @param source Optional actor or source tag stored in the history of the USER and DYNAMIC levels
+     * @returns true if all values were applied, false if some were blocked, unknown or dropped as invalid
+     */
+    public setLevelConfig(level: ConfigLevel, config: Partial<T>, override?: boolean, source?: string): boolean {
+        if (level === CONFIGLEVEL.DEFAULT) {
+            throw new ConfigurationError(ERRORCODES.DEFAULT_LEVEL_IS_IMMUTABLE);
+        }
+        this.getLevelStore(level);
+        let rejected = 0;
+
+        // Renamed keys write the replacement, keys that do not exist are dropped
+        const knownConfig = this.pruneUnknownKeys(this.renameDeprecatedKeys(config, true), (key) => {
+            rejected++;
+            console.warn(new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_KEY, undefined, { key, level }).message);
+        });
+
+        // Filter out all keys the level may not write
+        const filteredConfig: Partial<T> = Object.keys(knownConfig).reduce((acc, key) => {
+            if (this.canWrite(key, level)) {
+                acc[key as keyof T] = knownConfig[key as keyof T];
+            } else {
+                rejected++;
+                this.recordBlockedWrite(key, level, knownConfig[key as keyof T] as ConfigValue);
             }
             return acc;
         }, {} as Partial<T>);
+        const validConfig = this.validateConfig(filteredConfig, level);
+        rejected += Object.keys(filteredConfig).length - Object.keys(validConfig).length;
 
-        if (override === true) {
-            const oldUser = { ...this.userConfig };
-            this.userConfig = this.buildConfigurationObjects(filteredConfig, CONFIGLEVEL.USER) as Partial<T>;
-            this.updateChangedKeysBufferWithPartialConfig(filteredConfig, oldUser);
-        } else {
-            this.userConfig = {
-                ...this.userConfig,
-                ...this.buildConfigurationObjects(filteredConfig, CONFIGLEVEL.USER),
-            };
-            this.updateChangedKeysBufferWithPartialConfig(filteredConfig);
+        this.applyAtomically(() => {
+            this.applyLevelConfig(level, validConfig, override, source);
+            this.buildConfig();
+        });
+        return rejected === 0;
+    }
+
+    //=============================================================================
+    // PUBLIC: Batch updates
+    //=============================================================================
+
+    /**
+     * Apply several writes to any levels as a single transaction. The listeners are notified once
+     * with the combined changes when the callback returns and the user configuration is saved once.
+     * Values read inside the callback already include the earlier writes of the batch.
+     *
+     * If the callback throws, for example because a value fails the validation, all writes of the
+     * batch are rolled back, no listener is notified and the error is rethrown.
+     * Batches can be nested, the outermost batch decides when the changes are committed.
+     *
+     * @param fn Synchronous function making the changes
+     * @returns The return value of the callback
+     */
+    public batch<R>(fn: () => R): R {
+        if (this.batchState !== null) {
+            return fn();
         }
-        this.buildConfig();
+        if (!this.config) {
+            throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
+        }
+
+        const state = {
+            config: this.config,
+            flagDefinitions: this.flagDefinitions,
+            stores: this.builtLevelStores,
+            persistencePending: false,
+            undoStack: this.undoStack,
+            redoStack: this.redoStack,
+        };
+        this.batchState = state;
+
+        let result: R;
+        try {
+            result = fn();
+        } catch (error) {
+            this.batchState = null;
+            this.options.levels.forEach((level) => {
+                if (level !== CONFIGLEVEL.DEFAULT) {
+                    this.setLevelStore(level, state.stores[level] ?? {});
+                }
+            });
+            this.config = state.config;
+            this.flagDefinitions = state.flagDefinitions;
+            this.builtLevelStores = state.stores;
+            this.pendingHistory = [];
+            this.undoStack = state.undoStack;
+            this.redoStack = state.redoStack;
+            throw error;
+        }
+
+        this.batchState = null;
+        this.triggerListeners(state.config, state.stores, this.commitPendingHistory());
+        if (state.persistencePending) {
+            this.schedulePersistence();
+        }
+        return result;
+    }
+
+    //=============================================================================
+    // PUBLIC: History
+    //=============================================================================
+
+    /**
+     * Get the recorded changes of the USER and DYNAMIC levels, oldest first. Requires the historyLimit option.
+     *
+     * @param key Only return the changes of this key. Dot separated paths return the changes of the top level key.
+     * @returns
+     */
+    public getHistory(key?: ConfigPath<T>): IHistoryEntry<T>[] {
+        const [root] = key === undefined ? [] : this.resolveKey(key);
+        return this.history
+            .filter((entry) => root === undefined || entry.key === root)
+            .map((entry) => this.redactHistoryEntry(entry));
+    }
+
+    /**
+     * Revert the latest write to the USER or DYNAMIC level. All changes of a single setter call or a
+     * batch are reverted together. Write policies are not checked as the values were allowed before.
+     *
+     * @param source Optional actor or source tag stored in the history
+     * @returns false if there was nothing to undo
+     */
+    public undo(source?: string): boolean {
+        const group = this.undoStack[this.undoStack.length - 1];
+        if (group === undefined) {
+            return false;
+        }
+        this.applyAtomically(() => {
+            this.undoStack = this.undoStack.slice(0, -1);
+            this.redoStack = [...this.redoStack, group];
+            this.restoreHistory(group, "undo", source);
+        });
+        return true;
+    }
+
+    /**
+     * Reapply the latest write reverted with undo(). A new write clears the writes that can be redone.
+     *
+     * @param source Optional actor or source tag stored in the history
+     * @returns false if there was nothing to redo
+     */
+    public redo(source?: string): boolean {
+        const group = this.redoStack[this.redoStack.length - 1];
+        if (group === undefined) {
+            return false;
+        }
+        this.applyAtomically(() => {
+            this.redoStack = this.redoStack.slice(0, -1);
+            this.undoStack = [...this.undoStack, group];
+            this.restoreHistory(group, "redo", source);
+        });
+        return true;
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Subscribe to the recorded changes of the USER and DYNAMIC levels, for example for an activity trail.
+     * Unlike the change listeners the callback is also called for writes that do not change the effective value,
+     * like a USER write while a DYNAMIC value wins. Requires the historyLimit option. Returns an unsubscribe function.
+     *
+     * @param callback Called with the new entries of every write, undo and redo
+     * @returns
+     */
+    public subscribeToHistory(callback: (entries: IHistoryEntry<T>[]) => void): () => void {
+        this.historyListeners = [...this.historyListeners, callback];
+        return () => {
+            this.historyListeners = this.historyListeners.filter((listener) => listener !== callback);
+        };
+    }
+
+    /**
+     * Remove all recorded changes and the writes that could be undone or redone
+     */
+    public clearHistory(): void {
+        this.history = [];
+        this.undoStack = [];
+        this.redoStack = [];
     }
 
     //=============================================================================
@@ -404,7 +1164,10 @@ export class Configuration<T extends IConfig> {
     //=============================================================================
 
     /**
-     * Start the backend auto-update process
+     * Start the backend auto-update process.
+     *
+     * The returned promise rejects if the first update fails, but the update is still retried
+     * in the background until stopBackendAutoUpdate() is called.
      */
     public async startBackendAutoUpdate(): Promise<boolean> {
         // If no backend update function is provided, throw an error
@@ -413,17 +1176,16 @@ export class Configuration<T extends IConfig> {
         }
 
         // If already running, do nothing
-        if (this.backendUpdateTimeout !== null && this.options.backendUpdateFn !== undefined) {
+        if (this.backendStatus.running) {
             return true;
         }
 
-        // Start the update process now if update function is provided
-        if (this.options.backendUpdateFn !== undefined) {
-            await this.runBackendAutoUpdate();
-            return true;
+        this.backendStatus.running = true;
+        const error = await this.runBackendAutoUpdate(this.backendRunId);
+        if (error) {
+            throw error;
         }
-
-        return false;
+        return true;
     }
 
     /**
@@ -434,6 +1196,78 @@ export class Configuration<T extends IConfig> {
             clearTimeout(this.backendUpdateTimeout);
             this.backendUpdateTimeout = null;
         }
+        this.backendRunId++;
+        this.backendStatus.running = false;
+        this.backendStatus.nextRunAt = null;
+    }
+
+    /**
+     * Open the push connection for backend updates. Lost connections are reconnected with backoff
+     * and the backendUpdateFn is polled while disconnected.
+     */
+    public startBackendPush(): void {
+        if (this.options.backendPush === undefined) {
+            throw new ConfigurationError(ERRORCODES.NO_BACKEND_PUSH);
+        }
+        if (this.pushActive) {
+            return;
+        }
+        this.pushActive = true;
+        this.connectBackendPush();
+    }
+
+    /**
+     * Close the push connection. Polling started because of a lost connection is stopped too.
+     */
+    public stopBackendPush(): void {
+        this.pushActive = false;
+        if (this.pushReconnectTimeout) {
+            clearTimeout(this.pushReconnectTimeout);
+            this.pushReconnectTimeout = null;
+        }
+        if (this.pushSocket) {
+            const socket = this.pushSocket;
+            this.pushSocket = null;
+            socket.close();
+        }
+        this.pushReconnectAttempts = 0;
+        this.backendStatus.pushConnected = false;
+
+        if (this.pushPollingFallback) {
+            this.pushPollingFallback = false;
+            this.stopBackendAutoUpdate();
+        }
+    }
+
+    /**
+     * Current state of the backend auto-update
+     * @returns A copy of the status
+     */
+    public getBackendStatus(): IBackendStatus {
+        return { ...this.backendStatus };
+    }
+
+    //=============================================================================
+    // PUBLIC: Persistence controls
+    //=============================================================================
+
+    /**
+     * Returns a promise that resolves when the user configuration has been loaded from the
+     * persistence adapter. Resolves immediately if no adapter is used or the adapter is synchronous.
+     */
+    public waitForHydration(): Promise<void> {
+        return this.hydration;
+    }
+
+    /**
+     * Save the user configuration immediately if a debounced save is pending
+     */
+    public async flushPersistence(): Promise<void> {
+        if (this.persistenceTimeout) {
+            clearTimeout(this.persistenceTimeout);
+            this.persistenceTimeout = null;
+            await this.persistUserConfig();
+        }
     }
 
     //=============================================================================
@@ -447,213 +1281,1582 @@ export class Configuration<T extends IConfig> {
         return Object.keys(this.config) as (keyof T)[];
     }
 
-    //=============================================================================
-    // PRIVATE METHODS: Building and managing configurations
-    //=============================================================================
-
     /**
-     * Build the full configuration object by merging all configuration sources
+     * Metadata of a key or a dot separated path given in the metadata option
+     * @param key
+     * @returns
      */
-    private buildConfig(): void {
-        this.config = {
-            ...this.buildDefaultValues(this.defaultConfig),
-            ...this.buildConfigurationObjects(this.environmentConfig, CONFIGLEVEL.ENVIRONMENT),
-            ...this.buildConfigurationObjects(this.backendConfig, CONFIGLEVEL.BACKEND),
-            ...this.buildConfigurationObjects(this.userConfig, CONFIGLEVEL.USER),
-            ...this.buildConfigurationObjects(this.dynamicConfig, CONFIGLEVEL.DYNAMIC),
-        } as T;
-        this.resetReadOnlyFlags();
-        this.triggerListeners();
+    public getMetadata(key: ConfigPath<T>): IConfigKeyMetadata | undefined {
+        return this.options.metadata?.[key];
     }
 
     /**
-     * Build default configuration values into IConfigurationObject entries
-     *
-     * This is a separate method as the default configuration must contain all keys of T not just Partial<T>
-     * @param conf
+     * Validation rules of a key or a dot separated path given in the schema option
+     * @param key
      * @returns
      */
-    private buildDefaultValues(conf: T): T {
-        const defaults: T = this.buildConfigurationObjects(conf, CONFIGLEVEL.DEFAULT) as T;
-        return defaults;
+    public getSchema(key: ConfigPath<T>): IConfigKeySchema | undefined {
+        return this.options.schema?.[key];
     }
 
     /**
-     * Convert a IConfig object with direct values into one with IConfigurationObject entries
-     * @param conf
+     * Check if a level may write a key. Read-only keys can not be written by the USER and DYNAMIC levels,
+     * computed keys and the default level can not be written at all and writePolicies limit the other writes.
+     * @param key
      * @param level
      * @returns
      */
-    private buildConfigurationObjects(conf: Partial<T>, level: CONFIGLEVEL): Partial<T> {
-        const builtConfig: Partial<T> = {};
-        Object.keys(conf).forEach((key) => {
-            const val = conf[key as keyof T];
-
-            if (typeof val === "object") {
-                const valObj = val as IConfigurationObject;
-                valObj.level = level;
-                builtConfig[key as keyof T] = valObj as unknown as T[keyof T];
-            } else {
-                builtConfig[key as keyof T] = {
-                    value: conf[key as keyof T],
-                    readonly: this.options.readOnlyKeys.includes(key as keyof T),
-                    level,
-                } as unknown as T[keyof T];
-            }
-        });
-        return builtConfig;
+    public isWritable(key: ConfigPath<T>, level: ConfigLevel): boolean {
+        return this.canWrite(this.resolveDeprecatedKey(key), level);
     }
 
     /**
-     * Mark those configs to read-only that are specified in the options
+     * Raw values of the configuration with the secrets redacted, used by JSON.stringify()
+     * @returns
      */
-    private resetReadOnlyFlags(): void {
+    public toJSON(): ConfigObject {
         if (!this.config) {
             throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
         }
-        Object.keys(this.config).forEach((key) => {
-            if (!this.config) {
-                throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
-            }
-            const val = this.config[key as keyof T];
-
-            if (this.options.readOnlyKeys.includes(key as keyof T)) {
-                if (typeof val === "object") {
-                    const valObj = val as IConfigurationObject;
-                    valObj.readonly = true;
-                    this.config[key as keyof T] = valObj as unknown as T[keyof T];
-                }
-            }
-        });
+        return Configuration.helperConvertToValueObject(this.redactConfig(this.config)) as ConfigObject;
     }
 
     //=============================================================================
-    // PRIVATE: Backend auto-update methods
+    // PUBLIC: Provenance
     //=============================================================================
 
     /**
-     * Run the backend update function to fetch new configuration values
+     * Explain where the effective value of a key or a dot separated path comes from: the value on
+     * every level, the level that won, whether the key is read-only and the writes blocked by readOnlyKeys.
+     *
+     * @param key
+     * @returns
      */
-    private async runBackendAutoUpdate(): Promise<void> {
-        if (!this.options.backendUpdateFn) {
-            throw new ConfigurationError(ERRORCODES.NO_BACKEND_UPDATE_FN);
+    public explain(key: ConfigPath<T>): IConfigExplanation<T> {
+        if (!this.config) {
+            throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
         }
-        if (this.backendUpdateTimeout) {
-            clearTimeout(this.backendUpdateTimeout);
+        const [root, rest] = this.resolveKey(key);
+        if (!Object.prototype.hasOwnProperty.call(this.config, root)) {
+            throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_KEY, undefined, { key: String(key) });
         }
 
-        try {
-            const res = await this.options.backendUpdateFn({ ...this.config } as T);
+        const levels = this.options.levels.map((level) => {
+            const entry = this.getLevelStore(level)[root as keyof T] as IConfigurationObject | undefined;
+            const value = entry ? getIn(entry.value as ConfigData, rest) : undefined;
+            return { level, present: value !== undefined, value: this.redactValue(root, value) };
+        });
 
-            if (res && Object.keys(res).length > 0) {
-                this.setBackendConfig(res, true);
-            }
-        } catch (error) {
-            throw new ConfigurationError(ERRORCODES.BACKEND_UPDATE_FAILED, error as Error);
-        }
+        const value = this.getValue(key) as ConfigData | undefined;
+        const winningLevel = this.isComputed(root)
+            ? CONFIGLEVEL.COMPUTED
+            : ([...levels].reverse().find((levelValue) => levelValue.present)?.level ?? null);
+
+        return {
+            key,
+            value,
+            winningLevel,
+            readonly: this.isReadOnly(root),
+            secret: this.isSecret(root),
+            writableLevels: this.getWritableLevels(key, winningLevel),
+            levels,
+            blockedWrites: this.blockedWrites.filter((write) => this.resolveKey(write.key)[0] === root),
+        };
+    }
 
-        this.backendUpdateTimeout = setTimeout(() => {
-            this.runBackendAutoUpdate();
-        }, this.options.backendUpdateIntervalMs || 60000);
+    /**
+     * Explain every key of the configuration. The report can be logged or shown in a debug view.
+     * @returns
+     */
+    public explainAll(): IConfigExplanation<T>[] {
+        return this.getKeys().map((key) => this.explain(key as ConfigPath<T>));
     }
 
     //=============================================================================
-    // PRIVATE: Subscriber management methods
+    // PUBLIC: Feature flags
     //=============================================================================
 
     /**
-     * Update the changed keys buffer with keys from a partial configuration object.
+     * Evaluate a feature flag for a context and tell why the variant was selected. Keys whose value
+     * is not a flag definition return their current value with the reason "STATIC".
      *
-     * If the old configuration is provided, keys that were removed are also added to the buffer.
-     * @param newConf
-     * @param oldConf
+     * @param key
+     * @param context Defaults to the context set with setEvaluationContext()
+     * @returns
      */
-    private updateChangedKeysBufferWithPartialConfig(newConf: Partial<T>, oldConf?: Partial<T>): void {
-        Object.keys(newConf).forEach((key) => {
-            this.changedKeysBuffer.add(key as keyof T);
-            if (oldConf && !(key in newConf)) {
-                this.changedKeysBuffer.add(key as keyof T);
-            }
-        });
+    public evaluate(key: ConfigPath<T>, context?: IEvaluationContext): IFlagEvaluation {
+        if (!this.config) {
+            throw new ConfigurationError(ERRORCODES.CONFIGURATIONS_NOT_BUILT_YET);
+        }
+        const definition = this.flagDefinitions.get(String(key));
+        if (definition) {
+            const evaluation = evaluateFlag(String(key), definition, context ?? this.evaluationContext ?? {});
+            return { ...evaluation, value: this.redactValue(key, evaluation.value) };
+        }
+        if (!this.config.hasOwnProperty(this.resolveKey(key)[0])) {
+            throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_KEY, undefined, { key: String(key) });
+        }
+        const value = this.getValue(key) as ConfigData | undefined;
+        return { key: String(key), value, variant: null, reason: "STATIC" };
     }
 
     /**
-     * Trigger all listeners with the changed keys in the buffer and clear the buffer
-     * @param changedKeys
+     * Set the context used for the feature flags. getValue() and the listeners get the variants selected
+     * for the context. Without a context the flags are evaluated against an empty context.
+     *
+     * @param context The context or null to clear it
      */
-    private triggerListeners(): void {
-        if (this.config === null) {
-            return;
+    public setEvaluationContext(context: IEvaluationContext | null): void {
+        const previousContext = this.evaluationContext;
+        this.evaluationContext = context === null ? null : { ...context };
+        try {
+            this.applyAtomically(() => this.buildConfig());
+        } catch (error) {
+            this.evaluationContext = previousContext;
+            throw error;
         }
+    }
 
-        // Notify all listeners about the changed keys
-        this.listeners.forEach((listener) => {
-            // If no keys are specified, notify for all keys and provide the full config
-            if (listener.keys.length === 0) {
-                if (this.config === null) return;
-                listener.callback(this.config);
-                return;
-            }
+    public getEvaluationContext(): IEvaluationContext | null {
+        return this.evaluationContext === null ? null : { ...this.evaluationContext };
+    }
 
-            const relevantChanges: Partial<T> = {};
+    //=============================================================================
+    // PUBLIC: Snapshots
+    //=============================================================================
 
-            // Check if any of the listener's keys are in the changed keys buffer
-            if (listener.keys.length > 0) {
-                listener.keys.forEach((key) => {
-                    if (!this.config) return;
-                    if (this.changedKeysBuffer.has(key)) {
-                        const val = this.config[key];
+    /**
+     * Export the raw values of every level as a versioned JSON document, for example to attach
+     * to a bug report or to restore a session later with importSnapshot().
+     * @returns
+     */
+    public exportSnapshot(): IConfigSnapshot {
+        const levels = this.options.levels.reduce(
+            (acc, level) => {
+                const store = this.redactConfig(this.getLevelStore(level));
+                const values = Configuration.helperConvertToValueObject(store) as ConfigObject;
+                acc[level] = deepClone(values) as ConfigObject;
+                return acc;
+            },
+            {} as IConfigSnapshot["levels"]
+        );
+
+        return {
+            format: "hcconfig-snapshot",
+            formatVersion: SNAPSHOT_FORMAT_VERSION,
+            libraryVersion: VERSION,
+            ...(this.options.schemaVersion !== undefined ? { schemaVersion: this.options.schemaVersion } : {}),
+            createdAt: new Date().toISOString(),
+            levels,
+        };
+    }
 
-                        relevantChanges[key] = val;
-                    }
-                });
+    /**
+     * Restore the levels from a document created with exportSnapshot(). Older values are migrated to the
+     * current schemaVersion first. The restored levels are replaced entirely, as a single batch: listeners
+     * are notified once and nothing is restored if a value fails the validation. Keys the level may not
+     * write are left out like with setLevelConfig().
+     *
+     * @param snapshot The snapshot document or its JSON string
+     * @param options Levels to restore, the default level can not be restored
+     * @returns true if all values were restored, false if some were blocked or dropped as invalid
+     */
+    public importSnapshot(snapshot: IConfigSnapshot | string, options: ISnapshotImportOptions = {}): boolean {
+        const document = this.parseSnapshot(snapshot);
+        const levels =
+            options.levels ??
+            this.options.levels.filter((level) => level !== CONFIGLEVEL.DEFAULT && level in document.levels);
+
+        levels.forEach((level) => {
+            if (level === CONFIGLEVEL.DEFAULT) {
+                throw new ConfigurationError(ERRORCODES.DEFAULT_LEVEL_IS_IMMUTABLE);
             }
-
-            if (Object.keys(relevantChanges).length > 0) {
-                listener.callback(relevantChanges);
+            this.getLevelStore(level);
+            if (!(level in document.levels)) {
+                throw new ConfigurationError(ERRORCODES.INVALID_SNAPSHOT, undefined, {
+                    level,
+                    reason: "The level is missing from the snapshot",
+                });
             }
         });
 
-        // Clear the buffer after notifying listeners
-        this.changedKeysBuffer.clear();
+        return this.batch(() =>
+            levels.reduce((restored, level) => {
+                // Redacted secrets are not restored, the current values of the level are kept
+                const values = this.migrateValues(document.levels[level], document.schemaVersion);
+                Object.keys(values).forEach((key) => {
+                    if (this.isSecret(key) && values[key] === REDACTED) {
+                        delete values[key];
+                        const current = this.getLevelStore(level)[key] as IConfigurationObject | undefined;
+                        if (current !== undefined) {
+                            values[key as keyof T] = current.value as T[keyof T];
+                        }
+                    }
+                });
+                return this.setLevelConfig(level, values, true, "snapshot") && restored;
+            }, true)
+        );
     }
 
     //=============================================================================
-    // STATIC PURE HELPER METHODS FOR EXTERNAL USAGE
+    // PRIVATE METHODS: Building and managing configurations
     //=============================================================================
 
-    public static helperSetValue(original: ConfigValue, newValue: string | number | boolean): ConfigValue {
-        if (original && typeof original === "object") {
-            return {
-                ...original,
-                value: newValue as ConfigValue,
-            };
-        }
+    /**
+     * Build the full configuration object by merging all configuration sources.
+     *
+     * Nested objects are deep merged so that a level can override single nested values,
+     * other values (including arrays) are replaced by the higher level.
+     */
+    private buildConfig(): void {
+        const config: Partial<T> = {};
+
+        this.options.levels.forEach((level) => {
+            const levelConfig = this.getLevelStore(level);
+            Object.keys(levelConfig).forEach((key) => {
+                const entry = levelConfig[key as keyof T] as IConfigurationObject;
+                const current = config[key as keyof T] as IConfigurationObject | undefined;
+                // Flag definitions replace the value instead of being merged
+                const value =
+                    current && !isFlagDefinition(entry.value) && !isFlagDefinition(current.value)
+                        ? deepMerge(current.value as ConfigData, entry.value as ConfigData)
+                        : (entry.value as ConfigData);
+
+                config[key as keyof T] = createConfigurationObject(
+                    deepFreeze(value),
+                    level,
+                    this.isReadOnly(key)
+                ) as T[keyof T];
+            });
+        });
 
-        return newValue as ConfigValue;
+        // The effective value of a flag is the variant selected for the evaluation context
+        const flagDefinitions = new Map<string, IFlagDefinition>();
+        Object.keys(config).forEach((key) => {
+            const entry = config[key as keyof T] as IConfigurationObject;
+            if (isFlagDefinition(entry.value)) {
+                flagDefinitions.set(key, entry.value);
+                const evaluation = evaluateFlag(key, entry.value, this.evaluationContext ?? {});
+                config[key as keyof T] = createConfigurationObject(
+                    evaluation.value as ConfigData,
+                    entry.level,
+                    entry.readonly
+                ) as T[keyof T];
+            }
+        });
+
+        if (this.computedOrder.length > 0) {
+            const values = Configuration.helperConvertToValueObject(config) as T;
+            this.computedOrder.forEach((key) => {
+                const value = this.computeValue(key, values);
+                values[key as keyof T] = value as T[keyof T];
+                config[key as keyof T] = createConfigurationObject(value, CONFIGLEVEL.COMPUTED, true) as T[keyof T];
+            });
+        }
+
+        const previousConfig = this.config;
+        const previousStores = this.builtLevelStores;
+
+        this.config = config as T;
+        this.flagDefinitions = flagDefinitions;
+        this.builtLevelStores = this.options.levels.reduce((acc, level) => {
+            acc[level] = this.getLevelStore(level);
+            return acc;
+        }, {} as Partial<Record<ConfigLevel, Partial<T>>>);
+
+        // Inside a batch the listeners are notified once when the batch ends
+        if (previousConfig !== null && this.batchState === null) {
+            this.triggerListeners(previousConfig, previousStores, this.commitPendingHistory());
+        }
+    }
+
+    /**
+     * Run a write like a batch so that a failing build, for example a throwing compute function,
+     * rolls back the level stores and the history instead of leaving them out of sync with the config.
+     * Writes made before the first build are run as they are.
+     * @param write
+     */
+    private applyAtomically(write: () => void): void {
+        if (!this.config) {
+            write();
+            return;
+        }
+        this.batch(write);
+    }
+
+    /**
+     * Build default configuration values into IConfigurationObject entries
+     *
+     * This is a separate method as the default configuration must contain all keys of T not just Partial<T>
+     * @param conf
+     * @returns
+     */
+    private buildDefaultValues(conf: T): T {
+        const defaults: T = this.buildConfigurationObjects(conf, CONFIGLEVEL.DEFAULT) as T;
+        return defaults;
+    }
+
+    /**
+     * Convert a IConfig object with direct values into one with IConfigurationObject entries
+     * @param conf
+     * @param level
+     * @returns
+     */
+    private buildConfigurationObjects(conf: Partial<T>, level: ConfigLevel): Partial<T> {
+        const builtConfig: Partial<T> = {};
+        Object.keys(conf).forEach((key) => {
+            const value = unwrapConfigValue(conf[key as keyof T] as ConfigValue);
+            builtConfig[key as keyof T] = createConfigurationObject(
+                deepFreeze(deepClone(value)),
+                level,
+                this.isReadOnly(key)
+            ) as T[keyof T];
+        });
+        return builtConfig;
+    }
+
+    /**
+     * Write a partial configuration into the given level. Keys that are dot separated paths
+     * only replace the nested value and keep the rest of the object on that level.
+     *
+     * @param level
+     * @param conf
+     * @param override If true, existing values on the level are removed first
+     * @param source Optional actor or source tag stored in the history
+     */
+    private applyLevelConfig(level: ConfigLevel, conf: Partial<T>, override?: boolean, source?: string): void {
+        const previousStore = this.getLevelStore(level);
+        const levelConfig: Partial<T> = override === true ? {} : { ...previousStore };
+
+        Object.keys(conf).forEach((key) => {
+            const [root, rest] = this.resolveKey(key);
+            const value = deepClone(unwrapConfigValue(conf[key as keyof T] as ConfigValue));
+            const current = levelConfig[root as keyof T] as IConfigurationObject | undefined;
+            const newValue = rest.length > 0 ? setIn(current?.value as ConfigData | undefined, rest, value) : value;
+
+            levelConfig[root as keyof T] = createConfigurationObject(
+                deepFreeze(newValue),
+                level,
+                this.isReadOnly(root)
+            ) as T[keyof T];
+        });
+
+        this.setLevelStore(level, levelConfig);
+        this.recordHistory(level, previousStore, "write", source);
+
+        if (level === CONFIGLEVEL.USER) {
+            this.schedulePersistence();
+        }
+    }
+
+    /**
+     * Get the stored configuration object of a level
+     * @param level
+     * @returns
+     */
+    private getLevelStore(level: ConfigLevel): Partial<T> {
+        if (level === CONFIGLEVEL.DEFAULT) {
+            return this.defaultConfig;
+        }
+        const store = this.levelStores.get(level);
+        if (store === undefined) {
+            throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_LEVEL, undefined, { level });
+        }
+        return store;
+    }
+
+    /**
+     * Replace the stored configuration object of a level. The default level is immutable.
+     * @param level
+     * @param levelConfig
+     */
+    private setLevelStore(level: ConfigLevel, levelConfig: Partial<T>): void {
+        if (level === CONFIGLEVEL.DEFAULT || !this.levelStores.has(level)) {
+            throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_LEVEL, undefined, { level });
+        }
+        this.levelStores.set(level, levelConfig);
+    }
+
+    /**
+     * Check that the levels option starts with the default level and has no duplicates
+     * @param levels
+     */
+    private validateLevels(levels: ConfigLevel[]): void {
+        if (levels[0] !== CONFIGLEVEL.DEFAULT) {
+            throw new ConfigurationError(ERRORCODES.INVALID_LEVELS, undefined, {
+                reason: `The first level must be "${CONFIGLEVEL.DEFAULT}"`,
+            });
+        }
+        if (levels.includes(CONFIGLEVEL.COMPUTED)) {
+            throw new ConfigurationError(ERRORCODES.INVALID_LEVELS, undefined, {
+                level: CONFIGLEVEL.COMPUTED,
+                reason: "The computed level is reserved for computed keys",
+            });
+        }
+        const duplicate = levels.find((level, index) => levels.indexOf(level) !== index);
+        if (duplicate !== undefined) {
+            throw new ConfigurationError(ERRORCODES.INVALID_LEVELS, undefined, {
+                level: duplicate,
+                reason: "Duplicate level",
+            });
+        }
+    }
+
+    /**
+     * Split a key into the top level key and the path segments of a nested value.
+     *
+     * Keys that exist in the default configuration or are computed are never split, even if they contain dots.
+     * @param key
+     * @returns
+     */
+    private resolveKey(key: keyof T | string): [string, string[]] {
+        const strKey = this.resolveDeprecatedKey(key);
+        if (
+            !isPath(strKey) ||
+            this.defaultConfig.hasOwnProperty(strKey) ||
+            Object.prototype.hasOwnProperty.call(this.options.computed ?? {}, strKey)
+        ) {
+            return [strKey, []];
+        }
+        return splitPath(strKey);
+    }
+
+    /**
+     * Find the highest level that provides the nested value of the path
+     * @param root
+     * @param rest
+     * @returns
+     */
+    private resolvePathLevel(root: string, rest: string[]): ConfigLevel {
+        return this.resolvePathLevelIn((level) => this.getLevelStore(level), root, rest) ?? CONFIGLEVEL.DEFAULT;
+    }
+
+    /**
+     * Find the highest level that provides the nested value in the given level stores
+     * @param getStore
+     * @param root
+     * @param rest
+     * @returns The level or null if no level has the value
+     */
+    private resolvePathLevelIn(
+        getStore: (level: ConfigLevel) => Partial<T> | undefined,
+        root: string,
+        rest: string[]
+    ): ConfigLevel | null {
+        if (this.isComputed(root)) {
+            return CONFIGLEVEL.COMPUTED;
+        }
+        for (const level of [...this.options.levels].reverse()) {
+            const entry = getStore(level)?.[root as keyof T] as IConfigurationObject | undefined;
+            if (entry && getIn(entry.value as ConfigData, rest) !== undefined) {
+                return level;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Remember a write that was not applied because the key is read-only
+     * @param key
+     * @param level
+     * @param value
+     */
+    private recordBlockedWrite(key: keyof T | string, level: ConfigLevel, value: ConfigValue): void {
+        this.blockedWrites.push({
+            key: key as keyof T,
+            level,
+            value: this.redactValue(key, deepClone(unwrapConfigValue(value))),
+            at: Date.now(),
+        });
+        if (this.blockedWrites.length > MAX_BLOCKED_WRITES) {
+            this.blockedWrites.shift();
+        }
+        if (this.options.onBlockedWrite) {
+            this.options.onBlockedWrite(this.blockedWrites[this.blockedWrites.length - 1]);
+        }
+    }
+
+    /**
+     * Check if the level may write the key. Read-only keys can not be written to the USER and DYNAMIC
+     * levels, otherwise the write policy matching the key decides. Without a policy every level can write.
+     * @param key
+     * @param level
+     * @returns
+     */
+    private canWrite(key: keyof T | string, level: ConfigLevel): boolean {
+        if (level === CONFIGLEVEL.DEFAULT || this.isComputed(key)) {
+            return false;
+        }
+        if (this.isReadOnly(key) && (level === CONFIGLEVEL.USER || level === CONFIGLEVEL.DYNAMIC)) {
+            return false;
+        }
+        const policy = findWritePolicy(this.options.writePolicies, String(key));
+        return policy === undefined || policy.includes(level);
+    }
+
+    /**
+     * Levels that may write the key and have a high enough precedence to change the effective value
+     * @param key
+     * @param winningLevel The level currently providing the value
+     * @returns
+     */
+    private getWritableLevels(key: keyof T | string, winningLevel: ConfigLevel | null): ConfigLevel[] {
+        const levels = this.options.levels;
+        const minIndex = winningLevel === null ? 0 : levels.indexOf(winningLevel);
+        return levels.filter((level, index) => index >= minIndex && this.canWrite(key, level));
+    }
+
+    /**
+     * Check if the key (or the top level key of a path) is read-only
+     * @param key
+     * @returns
+     */
+    private isReadOnly(key: keyof T | string): boolean {
+        const [root] = this.resolveKey(key);
+        return this.options.readOnlyKeys.includes(root as keyof T) || this.isComputed(root);
+    }
+
+    /**
+     * Check if the top level key of a key or a dot separated path is a computed key
+     * @param key
+     * @returns
+     */
+    private isComputed(key: keyof T | string): boolean {
+        const computed = this.options.computed;
+        if (computed === undefined) {
+            return false;
+        }
+        const strKey = String(key);
+        return (
+            Object.prototype.hasOwnProperty.call(computed, strKey) ||
+            Object.prototype.hasOwnProperty.call(computed, splitPath(strKey)[0])
+        );
+    }
+
+    //=============================================================================
+    // PRIVATE: Migrations and deprecated keys
+    //=============================================================================
+
+    /**
+     * Migrate stored values to the current schema version, rename deprecated keys and drop unknown keys
+     * @param values Raw stored values
+     * @param version Schema version of the values, unversioned values are version 0
+     * @returns
+     */
+    private migrateValues(values: ConfigObject, version: number | undefined): Partial<T> {
+        const target = this.options.schemaVersion;
+        let migrated = values;
+
+        if (target !== undefined) {
+            const migrations = [...(this.options.migrations ?? [])]
+                .sort((a, b) => a.version - b.version)
+                .filter((migration) => migration.version > (version ?? 0) && migration.version <= target);
+
+            migrations.forEach((migration) => {
+                try {
+                    migrated = migration.migrate(deepClone(migrated) as ConfigObject);
+                } catch (error) {
+                    throw new ConfigurationError(ERRORCODES.MIGRATION_FAILED, error as Error, {
+                        reason: `Migration to version ${migration.version} failed`,
+                    });
+                }
+            });
+        }
+
+        return this.pruneUnknownKeys(this.renameDeprecatedKeys(migrated as Partial<T>, false));
+    }
+
+    /**
+     * Replace a deprecated key, or the top level key of a dot separated path, with its replacement
+     * @param key
+     * @param warn Log the deprecation warning the first time the key is used
+     * @returns
+     */
+    private resolveDeprecatedKey(key: keyof T | string, warn: boolean = true): string {
+        const strKey = String(key);
+        const deprecatedKeys = this.options.deprecatedKeys;
+        if (deprecatedKeys === undefined) {
+            return strKey;
+        }
+
+        const alias = [strKey, splitPath(strKey)[0]].find((candidate) =>
+            Object.prototype.hasOwnProperty.call(deprecatedKeys, candidate)
+        );
+        if (alias === undefined) {
+            return strKey;
+        }
+
+        const deprecated = deprecatedKeys[alias];
+        if (warn && !this.warnedDeprecatedKeys.has(alias)) {
+            this.warnedDeprecatedKeys.add(alias);
+            const message = deprecated.message ? ` ${deprecated.message}` : "";
+            const reason = `Use "${String(deprecated.replacement)}" instead.${message}`;
+            console.warn(new ConfigurationError(ERRORCODES.DEPRECATED_KEY, undefined, { key: alias, reason }).message);
+        }
+        return String(deprecated.replacement) + strKey.slice(alias.length);
+    }
+
+    /**
+     * Rename the deprecated keys of a partial configuration. A value given for the replacement wins.
+     * @param config
+     * @param warn
+     * @returns
+     */
+    private renameDeprecatedKeys(config: Partial<T>, warn: boolean): Partial<T> {
+        const renamed: Partial<T> = {};
+        Object.keys(config).forEach((key) => {
+            const resolved = this.resolveDeprecatedKey(key, warn);
+            if (resolved === key || !Object.prototype.hasOwnProperty.call(config, resolved)) {
+                renamed[resolved as keyof T] = config[key as keyof T];
+            }
+        });
+        return renamed;
+    }
+
+    /**
+     * Drop the keys that do not exist in the default configuration
+     * @param config
+     * @param onUnknown Called for every dropped key
+     * @returns
+     */
+    private pruneUnknownKeys(config: Partial<T>, onUnknown?: (key: string) => void): Partial<T> {
+        return Object.keys(config).reduce((acc, key) => {
+            const [root] = this.resolveKey(key);
+            if (this.defaultConfig.hasOwnProperty(root) || this.isComputed(root)) {
+                acc[key as keyof T] = config[key as keyof T];
+            } else if (onUnknown) {
+                onUnknown(key);
+            }
+            return acc;
+        }, {} as Partial<T>);
+    }
+
+    //=============================================================================
+    // PRIVATE: Secrets
+    //=============================================================================
+
+    /**
+     * Check if the top level key of a key or a dot separated path is in secretKeys
+     * @param key
+     * @returns
+     */
+    private isSecret(key: keyof T | string): boolean {
+        const [root] = this.resolveKey(key);
+        return this.options.secretKeys.includes(root as keyof T);
+    }
+
+    /**
+     * Replace the value with "***" if the key is a secret. Missing values stay undefined.
+     * @param key
+     * @param value
+     * @returns
+     */
+    private redactValue<V extends ConfigValue | undefined>(key: keyof T | string, value: V): V {
+        return value !== undefined && this.isSecret(key) ? (REDACTED as V) : value;
+    }
+
+    /**
+     * Replace a value with an empty value of the same type, keeping the keys of nested objects
+     * @param value
+     * @returns
+     */
+    private toEmptyValue(value: ConfigData): ConfigData {
+        if (Array.isArray(value)) {
+            return [];
+        }
+        if (isPlainObject(value)) {
+            return Object.keys(value).reduce((acc, key) => {
+                acc[key] = this.toEmptyValue(value[key]);
+                return acc;
+            }, {} as ConfigObject);
+        }
+        switch (typeof value) {
+            case "number":
+                return 0;
+            case "boolean":
+                return false;
+            default:
+                return "";
+        }
+    }
+
+    /**
+     * Copy of a configuration object or a level store with the secret values redacted
+     * @param config
+     * @returns
+     */
+    private redactConfig(config: Partial<T>): Partial<T> {
+        return Object.keys(config).reduce((acc, key) => {
+            const entry = config[key as keyof T] as IConfigurationObject;
+            acc[key as keyof T] = (
+                this.isSecret(key) ? createConfigurationObject(REDACTED, entry.level, entry.readonly) : entry
+            ) as T[keyof T];
+            return acc;
+        }, {} as Partial<T>);
+    }
+
+    /**
+     * Copy of the values without the secret keys
+     * @param config
+     * @returns
+     */
+    private omitSecrets(config: Partial<T>): Partial<T> {
+        return Object.keys(config).reduce((acc, key) => {
+            if (!this.isSecret(key)) {
+                acc[key as keyof T] = config[key as keyof T];
+            }
+            return acc;
+        }, {} as Partial<T>);
+    }
+
+    private redactHistoryEntry(entry: IHistoryEntry<T>): IHistoryEntry<T> {
+        if (!this.isSecret(entry.key)) {
+            return entry;
+        }
+        return {
+            ...entry,
+            oldValue: this.redactValue(entry.key, entry.oldValue),
+            newValue: this.redactValue(entry.key, entry.newValue),
+        };
+    }
+
+    //=============================================================================
+    // PRIVATE: Computed keys
+    //=============================================================================
+
+    /**
+     * Order the computed keys so that every key comes after the computed keys it depends on
+     * @returns
+     */
+    private sortComputedKeys(): string[] {
+        const computed: ComputedKeys<T> = this.options.computed ?? {};
+        const order: string[] = [];
+        const visiting: string[] = [];
+
+        const visit = (key: string): void => {
+            if (order.includes(key) || !this.isComputed(key)) {
+                return;
+            }
+            const index = visiting.indexOf(key);
+            if (index !== -1) {
+                throw new ConfigurationError(ERRORCODES.COMPUTED_CIRCULAR_DEPENDENCY, undefined, {
+                    key,
+                    reason: [...visiting.slice(index), key].join(" -> "),
+                });
+            }
+
+            visiting.push(key);
+            computed[key as keyof T]?.dependencies.forEach((dependency) => {
+                const [root] = this.resolveKey(dependency);
+                if (!this.defaultConfig.hasOwnProperty(root) && !this.isComputed(root)) {
+                    throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_KEY, undefined, {
+                        key: String(dependency),
+                        reason: `Unknown dependency of the computed key "${key}"`,
+                    });
+                }
+                visit(root);
+            });
+            visiting.pop();
+            order.push(key);
+        };
+
+        Object.keys(computed).forEach(visit);
+        return order;
+    }
+
+    /**
+     * Compute the value of a computed key. The previous value is reused if the dependencies have not changed.
+     * @param key
+     * @param values Raw values of the configuration including the computed keys it depends on
+     * @returns
+     */
+    private computeValue(key: string, values: T): ConfigData {
+        const computed = this.options.computed?.[key] as NonNullable<ComputedKeys<T>[keyof T]>;
+        const inputs = computed.dependencies.map((dependency) => {
+            const [root, rest] = this.resolveKey(dependency);
+            return getIn(values[root] as ConfigData | undefined, rest);
+        });
+
+        const cached = this.computedCache.get(key);
+        if (cached && cached.inputs.every((input, index) => isDeepEqual(input, inputs[index]))) {
+            return cached.value;
+        }
+
+        let value: ConfigData;
+        try {
+            value = deepFreeze(deepClone(computed.compute(values) as ConfigData));
+        } catch (error) {
+            throw new ConfigurationError(ERRORCODES.COMPUTED_KEY_FAILED, error as Error, { key });
+        }
+        this.computedCache.set(key, { inputs, value });
+        return value;
+    }
+
+    //=============================================================================
+    // PRIVATE: Snapshots
+    //=============================================================================
+
+    /**
+     * Parse and check the structure of a snapshot document
+     * @param snapshot
+     * @returns
+     */
+    private parseSnapshot(snapshot: IConfigSnapshot | string): IConfigSnapshot {
+        let document: unknown = snapshot;
+        if (typeof snapshot === "string") {
+            try {
+                document = JSON.parse(snapshot);
+            } catch (error) {
+                throw new ConfigurationError(ERRORCODES.INVALID_SNAPSHOT, error as Error, { reason: "Invalid JSON" });
+            }
+        }
+
+        if (!isPlainObject(document) || document.format !== "hcconfig-snapshot") {
+            throw new ConfigurationError(ERRORCODES.INVALID_SNAPSHOT, undefined, {
+                reason: "The document is not a configuration snapshot",
+            });
+        }
+        if (document.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+            throw new ConfigurationError(ERRORCODES.INVALID_SNAPSHOT, undefined, {
+                reason: `Unsupported snapshot format version ${String(document.formatVersion)}`,
+            });
+        }
+        const levels = document.levels;
+        if (!isPlainObject(levels)) {
+            throw new ConfigurationError(ERRORCODES.INVALID_SNAPSHOT, undefined, { reason: "The levels are missing" });
+        }
+        Object.keys(levels).forEach((level) => {
+            if (!isPlainObject(levels[level])) {
+                throw new ConfigurationError(ERRORCODES.INVALID_SNAPSHOT, undefined, {
+                    level,
+                    reason: "The values of the level must be an object",
+                });
+            }
+        });
+
+        return document as unknown as IConfigSnapshot;
+    }
+
+    //=============================================================================
+    // PRIVATE: History
+    //=============================================================================
+
+    /**
+     * Record the changed keys of a USER or DYNAMIC level store as pending history entries.
+     * Nothing is recorded when the history is disabled or while the persisted values are loaded.
+     *
+     * @param level
+     * @param previousStore The store before the change
+     * @param action
+     * @param source
+     */
+    private recordHistory(
+        level: ConfigLevel,
+        previousStore: Partial<T>,
+        action: IHistoryEntry<T>["action"],
+        source?: string
+    ): void {
+        if (this.options.historyLimit <= 0 || this.hydrating) {
+            return;
+        }
+        if (level !== CONFIGLEVEL.USER && level !== CONFIGLEVEL.DYNAMIC) {
+            return;
+        }
+
+        const store = this.getLevelStore(level);
+        new Set([...Object.keys(previousStore), ...Object.keys(store)]).forEach((key) => {
+            const oldValue = (previousStore[key] as IConfigurationObject | undefined)?.value as ConfigData | undefined;
+            const newValue = (store[key] as IConfigurationObject | undefined)?.value as ConfigData | undefined;
+            if (isDeepEqual(oldValue, newValue)) {
+                return;
+            }
+
+            this.historyId++;
+            const entry: IHistoryEntry<T> = {
+                id: this.historyId,
+                key,
+                level,
+                oldValue,
+                newValue,
+                at: Date.now(),
+                action,
+            };
+            if (source !== undefined) {
+                entry.source = source;
+            }
+            this.pendingHistory.push(entry);
+        });
+    }
+
+    /**
+     * Move the pending entries to the history. The writes form a single group that can be undone.
+     * @returns The committed entries
+     */
+    private commitPendingHistory(): IHistoryEntry<T>[] {
+        const entries = this.pendingHistory;
+        if (entries.length === 0) {
+            return entries;
+        }
+        this.pendingHistory = [];
+
+        const limit = this.options.historyLimit;
+        const writes = entries.filter((entry) => entry.action === "write");
+        if (writes.length > 0) {
+            this.undoStack = [...this.undoStack, writes].slice(-limit);
+            this.redoStack = [];
+        }
+        this.history = [...this.history, ...entries].slice(-limit);
+        return entries;
+    }
+
+    /**
+     * Set the values of a history group back to the old values for undo or to the new values for redo
+     * @param group
+     * @param action
+     * @param source
+     */
+    private restoreHistory(group: IHistoryEntry<T>[], action: "undo" | "redo", source?: string): void {
+        const previousStores = new Map<ConfigLevel, Partial<T>>();
+
+        group.forEach((entry) => {
+            const store = this.getLevelStore(entry.level);
+            if (!previousStores.has(entry.level)) {
+                previousStores.set(entry.level, store);
+            }
+
+            const value = action === "undo" ? entry.oldValue : entry.newValue;
+            const levelConfig: Partial<T> = { ...store };
+            if (value === undefined) {
+                delete levelConfig[entry.key];
+            } else {
+                levelConfig[entry.key] = createConfigurationObject(
+                    value,
+                    entry.level,
+                    this.isReadOnly(entry.key)
+                ) as T[keyof T];
+            }
+            this.setLevelStore(entry.level, levelConfig);
+        });
+
+        previousStores.forEach((previousStore, level) => {
+            this.recordHistory(level, previousStore, action, source);
+            if (level === CONFIGLEVEL.USER) {
+                this.schedulePersistence();
+            }
+        });
+        this.buildConfig();
+    }
+
+    //=============================================================================
+    // PRIVATE: Validation
+    //=============================================================================
+
+    /**
+     * Validate a partial configuration against the schema provided in the options.
+     *
+     * With the "reject" policy the first invalid value throws a ConfigurationError before anything
+     * is applied. With the "warn" policy invalid values are logged and left out of the returned object.
+     *
+     * Schema rules for nested paths are checked against the nested values of the written objects.
+     *
+     * @param config
+     * @param level
+     * @returns Configuration containing only the valid values
+     */
+    private validateConfig(config: Partial<T>, level: ConfigLevel): Partial<T> {
+        const schema = this.options.schema;
+
+        return Object.keys(config).reduce((acc, key) => {
+            const val = config[key as keyof T];
+            const rawValue = unwrapConfigValue(val as ConfigValue);
+            const invalid = isFlagDefinition(rawValue)
+                ? this.findInvalidFlag(schema, key, rawValue)
+                : schema
+                  ? this.findInvalidValue(schema, key, rawValue)
+                  : null;
+
+            if (invalid === null) {
+                acc[key as keyof T] = val;
+                return acc;
+            }
+
+            const error = new ConfigurationError(ERRORCODES.VALIDATION_FAILED, undefined, {
+                key: invalid.key,
+                level,
+                value: this.redactValue(key, invalid.value),
+                reason: invalid.reason,
+            });
+
+            if (this.options.validationPolicy === "reject") {
+                throw error;
+            }
+            console.warn(error.message);
+            return acc;
+        }, {} as Partial<T>);
     }
 
-    public static helperGetValue(original: ConfigValue): string | number | boolean | undefined {
-        if (original && typeof original === "object") {
-            const origObj = original as IConfigurationObject;
-            if (
-                typeof origObj.value !== "string" &&
-                typeof origObj.value !== "number" &&
-                typeof origObj.value !== "boolean"
-            ) {
-                return undefined;
+    /**
+     * Check the structure of a flag definition and the values of its variants against the schema of the key
+     * @param schema
+     * @param key
+     * @param definition
+     * @returns The first failing path with its value and reason or null if the definition is valid
+     */
+    private findInvalidFlag(
+        schema: ConfigSchema<T> | undefined,
+        key: string,
+        definition: IFlagDefinition
+    ): { key: string; value: ConfigData; reason: string } | null {
+        const reason = validateFlagDefinition(definition);
+        if (reason !== null) {
+            return { key, value: definition as unknown as ConfigData, reason };
+        }
+        if (!schema) {
+            return null;
+        }
+        for (const variant of Object.values(definition.variants)) {
+            const invalid = this.findInvalidValue(schema, key, variant);
+            if (invalid !== null) {
+                return invalid;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check the value written to the key against the rules of the key and the rules of any nested paths below it
+     * @param schema
+     * @param key
+     * @param value
+     * @returns The first failing path with its value and reason or null if the value is valid
+     */
+    private findInvalidValue(
+        schema: ConfigSchema<T>,
+        key: string,
+        value: ConfigData
+    ): { key: string; value: ConfigData; reason: string } | null {
+        for (const schemaKey of Object.keys(schema)) {
+            const rules = schema[schemaKey as keyof T];
+            if (!rules) {
+                continue;
+            }
+
+            let target: ConfigData | undefined = undefined;
+            if (schemaKey === key) {
+                target = value;
+            } else if (schemaKey.startsWith(`${key}.`)) {
+                target = getIn(value, schemaKey.slice(key.length + 1).split("."));
+            }
+
+            if (target === undefined) {
+                continue;
+            }
+
+            const reason = validateConfigValue(target, rules);
+            if (reason !== null) {
+                return { key: schemaKey, value: target, reason };
+            }
+        }
+        return null;
+    }
+
+    //=============================================================================
+    // PRIVATE: Backend auto-update methods
+    //=============================================================================
+
+    /**
+     * Run the backend update function to fetch new configuration values and schedule the next run.
+     * Never rejects, failures are reported with onBackendError and retried with backoff.
+     *
+     * @param runId The run this update belongs to
+     * @returns The error if the update failed
+     */
+    private async runBackendAutoUpdate(runId: number): Promise<ConfigurationError | null> {
+        if (!this.options.backendUpdateFn) {
+            return new ConfigurationError(ERRORCODES.NO_BACKEND_UPDATE_FN);
+        }
+        if (this.backendUpdateTimeout) {
+            clearTimeout(this.backendUpdateTimeout);
+            this.backendUpdateTimeout = null;
+        }
+        this.backendStatus.nextRunAt = null;
+
+        let failure: ConfigurationError | null = null;
+        try {
+            const res = await this.options.backendUpdateFn(this.omitSecrets((this.config ?? {}) as Partial<T>) as T);
+            if (runId !== this.backendRunId) {
+                return null;
+            }
+
+            if (res && Object.keys(res).length > 0) {
+                this.setBackendConfig(res, true);
+            }
+            this.backendStatus.lastSuccessAt = Date.now();
+            this.backendStatus.lastError = null;
+            this.backendStatus.consecutiveFailures = 0;
+        } catch (error) {
+            if (runId !== this.backendRunId) {
+                return null;
+            }
+            failure = new ConfigurationError(ERRORCODES.BACKEND_UPDATE_FAILED, error as Error);
+            this.backendStatus.lastError = failure;
+            this.backendStatus.consecutiveFailures++;
+        }
+
+        const delay = this.getNextBackendUpdateDelay();
+        this.backendStatus.nextRunAt = Date.now() + delay;
+        this.backendUpdateTimeout = setTimeout(() => {
+            this.runBackendAutoUpdate(runId);
+        }, delay);
+
+        if (failure) {
+            this.reportBackendError(failure);
+        }
+        return failure;
+    }
+
+    /**
+     * Delay until the next backend update. Failed updates are retried with backoff until the
+     * maximum attempts are used, after that the normal interval is used again.
+     */
+    private getNextBackendUpdateDelay(): number {
+        const interval = this.options.backendUpdateIntervalMs || 60000;
+        const failures = this.backendStatus.consecutiveFailures;
+        const retry = { ...DEFAULT_BACKEND_RETRY, ...this.options.backendRetry };
+
+        if (failures === 0 || failures > retry.maxAttempts) {
+            return interval;
+        }
+        return computeBackoffDelay(failures, retry);
+    }
+
+    /**
+     * Open a new push connection and attach the event handlers to it
+     */
+    private connectBackendPush(): void {
+        this.pushReconnectTimeout = null;
+        if (!this.pushActive || !this.options.backendPush) {
+            return;
+        }
+
+        let socket: IBackendPushSocket;
+        try {
+            socket = this.options.backendPush.connect();
+        } catch (error) {
+            this.handleBackendPushDisconnect(null, error as Error);
+            return;
+        }
+        this.pushSocket = socket;
+
+        socket.onopen = () => {
+            if (socket !== this.pushSocket) {
+                return;
+            }
+            this.pushReconnectAttempts = 0;
+            this.backendStatus.pushConnected = true;
+
+            // Pushed updates replace the polling while connected
+            if (this.backendStatus.running) {
+                this.stopBackendAutoUpdate();
+            }
+            this.pushPollingFallback = false;
+        };
+        socket.onmessage = (event) => {
+            if (socket === this.pushSocket) {
+                this.handleBackendPushMessage(event.data);
+            }
+        };
+        socket.onerror = () => this.handleBackendPushDisconnect(socket);
+        socket.onclose = () => this.handleBackendPushDisconnect(socket);
+    }
+
+    /**
+     * Apply a pushed snapshot or patch to the BACKEND level
+     * @param data JSON string or a parsed message
+     */
+    private handleBackendPushMessage(data: string | IBackendPushMessage): void {
+        let message: IBackendPushMessage;
+        try {
+            message = typeof data === "string" ? JSON.parse(data) : data;
+        } catch (error) {
+            this.reportBackendError(new ConfigurationError(ERRORCODES.BACKEND_PUSH_INVALID_MESSAGE, error as Error));
+            return;
+        }
+
+        if (!isPlainObject(message) || !isPlainObject(message.config) || !["snapshot", "patch"].includes(message.type)) {
+            this.reportBackendError(new ConfigurationError(ERRORCODES.BACKEND_PUSH_INVALID_MESSAGE));
+            return;
+        }
+
+        try {
+            this.setBackendConfig(message.config as Partial<T>, message.type === "snapshot");
+            this.backendStatus.lastSuccessAt = Date.now();
+        } catch (error) {
+            this.reportBackendError(new ConfigurationError(ERRORCODES.BACKEND_UPDATE_FAILED, error as Error));
+        }
+    }
+
+    /**
+     * Handle a lost or failed push connection: start polling and schedule a reconnect
+     * @param socket The socket that was lost or null if connecting failed
+     * @param cause
+     */
+    private handleBackendPushDisconnect(socket: IBackendPushSocket | null, cause?: Error): void {
+        if (socket !== this.pushSocket || !this.pushActive) {
+            return;
+        }
+        if (socket) {
+            this.pushSocket = null;
+            socket.close();
+        }
+        this.backendStatus.pushConnected = false;
+
+        if (this.options.backendUpdateFn && !this.backendStatus.running) {
+            this.pushPollingFallback = true;
+            this.startBackendAutoUpdate().catch(() => undefined);
+        }
+
+        this.pushReconnectAttempts++;
+        const reconnect = { ...DEFAULT_BACKEND_RETRY, ...this.options.backendPush?.reconnect };
+        this.pushReconnectTimeout = setTimeout(
+            () => this.connectBackendPush(),
+            computeBackoffDelay(this.pushReconnectAttempts, reconnect)
+        );
+
+        this.reportBackendError(new ConfigurationError(ERRORCODES.BACKEND_PUSH_DISCONNECTED, cause));
+    }
+
+    private reportBackendError(error: ConfigurationError): void {
+        if (this.options.onBackendError) {
+            // A throwing callback must not stop the retries or surface as an unhandled rejection
+            try {
+                this.options.onBackendError(error, this.getBackendStatus());
+            } catch (callbackError) {
+                console.warn(error.message, callbackError);
+            }
+            return;
+        }
+        console.warn(error.message);
+    }
+
+    //=============================================================================
+    // PRIVATE: Persistence methods
+    //=============================================================================
+
+    /**
+     * The key used to store the user configuration
+     */
+    private getPersistenceKey(): string {
+        return `${this.options.persistenceNamespace}:user`;
+    }
+
+    /**
+     * Load the user configuration from the persistence adapter. Synchronous adapters are applied
+     * immediately, asynchronous ones when the returned promise resolves.
+     */
+    private hydrateUserConfig(): Promise<void> {
+        const adapter = this.options.persistenceAdapter;
+        if (!adapter) {
+            return Promise.resolve();
+        }
+
+        try {
+            const res = adapter.load(this.getPersistenceKey());
+            if (res instanceof Promise) {
+                return res.then(
+                    (data) => this.applyPersistedUserConfig(data),
+                    (error) => this.handlePersistenceLoadError(error)
+                );
+            }
+            this.applyPersistedUserConfig(res);
+        } catch (error) {
+            this.handlePersistenceLoadError(error);
+        }
+        return Promise.resolve();
+    }
+
+    /**
+     * Apply the loaded user configuration. Values set before the hydration finished take precedence.
+     * @param data
+     */
+    private applyPersistedUserConfig(data: IPersistedUserConfig | null): void {
+        if (data === null) {
+            return;
+        }
+
+        let values: Partial<T>;
+        try {
+            values = this.migrateValues(data.values, data.version);
+        } catch (error) {
+            this.reportPersistenceError(error as ConfigurationError);
+            return;
+        }
+
+        this.hydrating = true;
+        try {
+            this.setUserConfig({
+                ...this.omitSecrets(values),
+                ...Configuration.helperConvertToValueObject(this.getLevelStore(CONFIGLEVEL.USER)),
+            } as Partial<T>);
+        } catch (error) {
+            this.reportPersistenceError(new ConfigurationError(ERRORCODES.PERSISTENCE_LOAD_FAILED, error as Error));
+        } finally {
+            this.hydrating = false;
+        }
+
+        // Save the migrated values so that the stored data is up to date
+        if (data.version !== this.options.schemaVersion || !isDeepEqual(values as ConfigObject, data.values)) {
+            this.schedulePersistence();
+        }
+    }
+
+    /**
+     * Report a failed load. Corrupt data is removed from the storage so that it does not fail again.
+     * @param error
+     */
+    private handlePersistenceLoadError(error: unknown): void {
+        if (error instanceof ConfigurationError && error.message === ERRORCODES.PERSISTENCE_CORRUPT_DATA) {
+            this.reportPersistenceError(error);
+            try {
+                const res = this.options.persistenceAdapter?.remove(this.getPersistenceKey());
+                if (res instanceof Promise) {
+                    res.catch(() => {});
+                }
+            } catch {
+                // The storage is not usable, nothing more to do
+            }
+            return;
+        }
+        this.reportPersistenceError(
+            error instanceof ConfigurationError
+                ? error
+                : new ConfigurationError(ERRORCODES.PERSISTENCE_LOAD_FAILED, error as Error)
+        );
+    }
+
+    /**
+     * Save the user configuration now or after the debounce delay
+     */
+    private schedulePersistence(): void {
+        if (!this.options.persistenceAdapter || this.hydrating) {
+            return;
+        }
+        if (this.batchState !== null) {
+            this.batchState.persistencePending = true;
+            return;
+        }
+
+        if (this.options.persistenceDebounceMs > 0) {
+            if (this.persistenceTimeout) {
+                clearTimeout(this.persistenceTimeout);
+            }
+            this.persistenceTimeout = setTimeout(() => {
+                this.persistenceTimeout = null;
+                this.persistUserConfig();
+            }, this.options.persistenceDebounceMs);
+            return;
+        }
+
+        this.persistUserConfig();
+    }
+
+    /**
+     * Save the current user configuration with the persistence adapter. Errors are reported, not thrown.
+     */
+    private async persistUserConfig(): Promise<void> {
+        const adapter = this.options.persistenceAdapter;
+        if (!adapter) {
+            return;
+        }
+
+        const data: IPersistedUserConfig = {
+            values: Configuration.helperConvertToValueObject(
+                this.omitSecrets(this.getLevelStore(CONFIGLEVEL.USER))
+            ) as ConfigObject,
+        };
+        if (this.options.schemaVersion !== undefined) {
+            data.version = this.options.schemaVersion;
+        }
+
+        try {
+            await adapter.save(this.getPersistenceKey(), data);
+        } catch (error) {
+            this.reportPersistenceError(
+                error instanceof ConfigurationError
+                    ? error
+                    : new ConfigurationError(ERRORCODES.PERSISTENCE_SAVE_FAILED, error as Error)
+            );
+        }
+    }
+
+    private reportPersistenceError(error: ConfigurationError): void {
+        if (this.options.onPersistenceError) {
+            this.options.onPersistenceError(error);
+            return;
+        }
+        console.warn(error.message);
+    }
+
+    //=============================================================================
+    // PRIVATE: Subscriber management methods
+    //=============================================================================
+
+    private addListener(keys: (keyof T)[] | keyof T, callback: IListener<T>["callback"]): () => void {
+        const id = `listener-id-${this.listeners.length}-${Math.round(Math.random() * 10000)}`;
+        const listener: IListener<T> = { id, keys: Array.isArray(keys) ? keys : [keys], callback };
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((l) => l.id !== id);
+        };
+    }
+
+    /**
+     * Compare the previous configuration with the current one and notify the listeners of the keys
+     * whose effective value or providing level changed.
+     *
+     * @param previousConfig The configuration before the change
+     * @param previousStores The level stores the previous configuration was built from
+     * @param history History entries of the writes that caused the changes
+     */
+    private triggerListeners(
+        previousConfig: T,
+        previousStores: Partial<Record<ConfigLevel, Partial<T>>>,
+        history: IHistoryEntry<T>[] = []
+    ): void {
+        if (this.config === null) {
+            return;
+        }
+        const config = this.config;
+
+        // History entries are delivered even when the effective values did not change
+        if (history.length > 0) {
+            const entries = history.map((entry) => this.redactHistoryEntry(entry));
+            this.historyListeners.forEach((listener) => listener(entries));
+        }
+
+        const rootChanges = new Map<string, IConfigChangeRecord<T>>();
+        new Set([...Object.keys(previousConfig), ...Object.keys(config)]).forEach((key) => {
+            const change = this.describeChange(key, previousConfig, previousStores, history);
+            if (change) {
+                rootChanges.set(key, change);
+            }
+        });
+
+        if (rootChanges.size === 0) {
+            return;
+        }
+        this.revision++;
+
+        // Notify all listeners about the changed keys
+        this.listeners.forEach((listener) => {
+            // If no keys are specified, notify for all keys and provide the full config
+            if (listener.keys.length === 0) {
+                listener.callback(this.redactConfig(config) as T, [...rootChanges.values()]);
+                return;
+            }
+
+            const relevantChanges: Partial<T> = {};
+            const records: IConfigChangeRecord<T>[] = [];
+
+            // Listeners of nested paths are only notified when the nested value itself has changed
+            listener.keys.forEach((key) => {
+                const [root, rest] = this.resolveKey(key);
+                const rootChange = rootChanges.get(root);
+                if (!rootChange) {
+                    return;
+                }
+
+                const change =
+                    rest.length > 0 ? this.describeChange(key, previousConfig, previousStores, history) : rootChange;
+                if (change) {
+                    relevantChanges[key] = this.getConfigObject(key) as T[keyof T];
+                    records.push(change);
+                }
+            });
+
+            if (records.length > 0) {
+                listener.callback(relevantChanges, records);
             }
-            return origObj.value as string | number | boolean;
+        });
+    }
+
+    /**
+     * Describe the change of a key or a nested path between the previous and the current configuration
+     * @param key
+     * @param previousConfig
+     * @param previousStores
+     * @param history History entries to attach to the record
+     * @returns The change record or null if neither the value nor the level changed
+     */
+    private describeChange(
+        key: keyof T | string,
+        previousConfig: T,
+        previousStores: Partial<Record<ConfigLevel, Partial<T>>>,
+        history: IHistoryEntry<T>[] = []
+    ): IConfigChangeRecord<T> | null {
+        const [root, rest] = this.resolveKey(key);
+        const oldEntry = previousConfig[root] as IConfigurationObject | undefined;
+        const newEntry = this.config?.[root] as IConfigurationObject | undefined;
+
+        const oldValue = oldEntry ? getIn(oldEntry.value as ConfigData, rest) : undefined;
+        const newValue = newEntry ? getIn(newEntry.value as ConfigData, rest) : undefined;
+
+        // The level of a nested value is the highest level that provides it, not the level of the merged object
+        const oldLevel =
+            oldValue === undefined || !oldEntry
+                ? null
+                : rest.length > 0
+                  ? this.resolvePathLevelIn((level) => previousStores[level], root, rest)
+                  : oldEntry.level;
+        const newLevel =
+            newValue === undefined || !newEntry
+                ? null
+                : rest.length > 0
+                  ? this.resolvePathLevelIn((level) => this.getLevelStore(level), root, rest)
+                  : newEntry.level;
+
+        if (oldLevel === newLevel && isDeepEqual(oldValue, newValue)) {
+            return null;
+        }
+
+        const change: IConfigChangeRecord<T> = {
+            key: key as keyof T,
+            oldValue: this.redactValue(root, oldValue),
+            newValue: this.redactValue(root, newValue),
+            oldLevel,
+            newLevel,
+        };
+        const entries = history.filter((entry) => entry.key === root);
+        if (entries.length > 0) {
+            change.history = entries.map((entry) => this.redactHistoryEntry(entry));
+        }
+        return change;
+    }
+
+    //=============================================================================
+    // STATIC PURE HELPER METHODS FOR EXTERNAL USAGE
+    //=============================================================================
+
+    public static helperSetValue(original: ConfigValue, newValue: ConfigData): ConfigValue {
+        if (isConfigurationObject(original)) {
+            return createConfigurationObject(newValue, original.level, original.readonly);
+        }
+
+        return newValue;
+    }
+
+    public static helperGetValue(original: ConfigValue): ConfigData | undefined {
+        if (original === undefined) {
+            return undefined;
         }
-        return original as string | number | boolean;
+        return unwrapConfigValue(original);
     }
 
     public static helperConvertToValueObject<T>(config: Partial<T>): Partial<T> {
         return Object.keys(config).reduce((acc, key) => {
             const val = config[key as keyof T];
-            if (val && typeof val === "object") {
-                const vobj = val as unknown as IConfigurationObject;
-                acc[key as keyof T] = vobj.value as T[keyof T];
+            if (isConfigurationObject(val)) {
+                acc[key as keyof T] = val.value as T[keyof T];
             } else {
                 acc[key as keyof T] = val;
             }
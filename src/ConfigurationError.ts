@@ -1,11 +1,28 @@
-
+import { IConfigurationErrorDetails } from "./interfaces/IConfigurationErrorDetails";
 
 export class ConfigurationError extends Error {
-    constructor(message: string, public cause?: Error) {
-        super(message);
+    constructor(message: string, public cause?: Error, public details?: IConfigurationErrorDetails) {
+        super(details ? `${message} ${describeDetails(details)}` : message);
         this.name = "ConfigurationError";
         if (cause) {
             this.stack = cause.stack;
         }
     }
-}
\ No newline at end of file
+}
+
+function describeDetails(details: IConfigurationErrorDetails): string {
+    const parts: string[] = [];
+    if (details.file !== undefined) {
+        parts.push(details.line !== undefined ? `${details.file}:${details.line}` : details.file);
+    }
+    if (details.key !== undefined) {
+        parts.push(`key "${details.key}"`);
+    }
+    if (details.level !== undefined) {
+        parts.push(`level ${details.level}`);
+    }
+    if (details.reason !== undefined) {
+        parts.push(details.reason);
+    }
+    return `(${parts.join(", ")})`;
+}
@@ -4,5 +4,15 @@ export enum CONFIGLEVEL {
     ENVIRONMENT = "environment",
     BACKEND = "backend",
     USER = "user",
-    DYNAMIC = "dynamic"
-}
\ No newline at end of file
+    DYNAMIC = "dynamic",
+
+    /**
+     * Level of computed keys. It is not a level of the levels option and can not be written.
+     */
+    COMPUTED = "computed"
+}
+
+/**
+ * A configuration level. Custom levels declared with the `levels` option are plain strings.
+ */
+export type ConfigLevel = CONFIGLEVEL | string;
@@ -4,10 +4,33 @@ export const ERRORCODES = {
     DEFAULTCONFIG_MUST_BE_OBJECT: "Default configuration must be an object extending IConfigurationObject.",
     INSTANCE_NEEDS_DEFAULTCONFIGS: "Default configuration must be provided for the first instantiation of singleton Configuration.",
     NO_CONFIGURATION_INSTANCE: "No Configuration instance exists. Please create one before accessing it.",
+    INSTANCE_ALREADY_REGISTERED: "Another Configuration instance is already registered with the same name.",
+    NO_CONFIG_PROVIDER: "No ConfigProvider is mounted. Wrap the component in a ConfigProvider or pass the instance to the hook.",
     NO_BACKEND_UPDATE_FN: "No backend update function provided for dynamic backend updates.",
     BACKEND_UPDATE_FAILED: "Backend update function failed to fetch new configuration.",
+    NO_BACKEND_PUSH: "No backend push options provided for push based backend updates.",
+    BACKEND_PUSH_DISCONNECTED: "Backend push connection was lost. Reconnecting.",
+    BACKEND_PUSH_INVALID_MESSAGE: "Backend push message is not a valid snapshot or patch.",
     CONFIGURATIONS_NOT_BUILT_YET: "Configurations have not been built yet.",
     UNKNOWN_CONFIG_LEVEL: "The specified configuration level is unknown.",
+    INVALID_LEVELS: "The configuration levels are invalid.",
+    DEFAULT_LEVEL_IS_IMMUTABLE: "The default configuration level can not be changed after the instance is created.",
+    COMPUTED_CIRCULAR_DEPENDENCY: "The computed configuration keys have a circular dependency.",
+    COMPUTED_KEY_FAILED: "The compute function of a computed configuration key failed.",
+    MIGRATION_FAILED: "Migrating the stored configuration to the current schema version failed.",
+    DEPRECATED_KEY: "The configuration key is deprecated.",
+    INVALID_SNAPSHOT: "The configuration snapshot is not a valid snapshot document.",
     INVALID_CONFIG_TYPE: "The configuration value is of an invalid type. Expected string, number, boolean, or null.",
+    VALIDATION_FAILED: "The configuration value failed the schema validation.",
+    PERSISTENCE_NOT_AVAILABLE: "The storage used by the persistence adapter is not available.",
+    PERSISTENCE_LOAD_FAILED: "Persistence adapter failed to load the user configuration.",
+    PERSISTENCE_CORRUPT_DATA: "Persisted user configuration is corrupt and was discarded.",
+    PERSISTENCE_SAVE_FAILED: "Persistence adapter failed to save the user configuration.",
+    PERSISTENCE_QUOTA_EXCEEDED: "Storage quota exceeded while saving the user configuration.",
+    CONFIG_FILE_UNSUPPORTED: "The configuration file type is not supported. Use .json, .yaml, .yml, .toml or .env files.",
+    CONFIG_FILE_READ_FAILED: "The configuration file could not be read.",
+    CONFIG_FILE_PARSE_FAILED: "The configuration file could not be parsed.",
+    CONFIG_FILE_UNKNOWN_KEY: "The configuration file contains a key that does not exist in the default configuration.",
+    CONFIG_FILE_TYPE_MISMATCH: "The configuration file contains a value of a different type than the default configuration.",
 
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { IBackendRetryOptions } from "../interfaces/IBackendUpdate";
+
+/**
+ * Delay before the given retry attempt using exponential backoff with jitter.
+ *
+ * @param attempt Retry attempt starting from 1
+ * @param options
+ * @param random Random number generator returning values between 0 and 1
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+    attempt: number,
+    options: Omit<IBackendRetryOptions, "maxAttempts">,
+    random: () => number = Math.random
+): number {
+    const exponential = options.initialDelayMs * Math.pow(options.multiplier, Math.max(0, attempt - 1));
+    const delay = Math.min(options.maxDelayMs, exponential);
+    const variation = delay * options.jitter * (random() * 2 - 1);
+    return Math.max(0, Math.round(delay + variation));
+}
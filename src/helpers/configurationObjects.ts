@@ -0,0 +1,50 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigData, ConfigValue, IConfigurationObject } from "../interfaces/IConfigurationObject";
+
+/**
+ * Marker used to tell IConfigurationObject wrappers apart from user data that happens
+ * to have the same shape. The marker is not enumerable so it does not show up in JSON or comparisons.
+ */
+const CONFIGURATION_OBJECT_MARKER = Symbol.for("hcconfig.IConfigurationObject");
+
+/**
+ * Create a new IConfigurationObject wrapper for a value
+ * @param value
+ * @param level
+ * @param readonly
+ * @returns
+ */
+export function createConfigurationObject(
+    value: ConfigData,
+    level: ConfigLevel,
+    readonly: boolean = false
+): IConfigurationObject {
+    const obj: IConfigurationObject = { value, level, readonly };
+    Object.defineProperty(obj, CONFIGURATION_OBJECT_MARKER, { value: true, enumerable: false });
+    return obj;
+}
+
+/**
+ * Check if the value is an IConfigurationObject wrapper created by the library
+ * @param val
+ * @returns
+ */
+export function isConfigurationObject(val: unknown): val is IConfigurationObject {
+    return (
+        val !== null &&
+        typeof val === "object" &&
+        (val as Record<symbol, unknown>)[CONFIGURATION_OBJECT_MARKER] === true
+    );
+}
+
+/**
+ * Return the raw value of a ConfigValue, unwrapping it if it is an IConfigurationObject
+ * @param val
+ * @returns
+ */
+export function unwrapConfigValue(val: ConfigValue): ConfigData {
+    if (isConfigurationObject(val)) {
+        return unwrapConfigValue(val.value);
+    }
+    return val as ConfigData;
+}
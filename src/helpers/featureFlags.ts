@@ -0,0 +1,202 @@
+import { ConfigData } from "../interfaces/IConfigurationObject";
+import {
+    FlagOperator,
+    IEvaluationContext,
+    IFlagCondition,
+    IFlagDefinition,
+    IFlagEvaluation,
+} from "../interfaces/IFeatureFlag";
+import { isPlainObject } from "./objectPaths";
+
+const FLAG_OPERATORS: FlagOperator[] = [
+    "equals",
+    "notEquals",
+    "in",
+    "notIn",
+    "contains",
+    "startsWith",
+    "endsWith",
+    "lt",
+    "lte",
+    "gt",
+    "gte",
+    "versionLt",
+    "versionLte",
+    "versionGt",
+    "versionGte",
+];
+
+/**
+ * Check if a value is meant to be a flag definition. The structure is checked by validateFlagDefinition().
+ * @param value
+ * @returns
+ */
+export function isFlagDefinition(value: unknown): value is IFlagDefinition {
+    return isPlainObject(value) && value.kind === "flag";
+}
+
+/**
+ * Check the structure of a flag definition
+ * @param definition
+ * @returns The reason why the definition is invalid or null if it is valid
+ */
+export function validateFlagDefinition(definition: IFlagDefinition): string | null {
+    const variants = definition.variants;
+    if (!isPlainObject(variants)) {
+        return "Flag variants must be an object";
+    }
+    if (!Object.prototype.hasOwnProperty.call(variants, definition.defaultVariant)) {
+        return `Unknown default variant "${definition.defaultVariant}"`;
+    }
+
+    const rules = definition.rules ?? [];
+    if (!Array.isArray(rules)) {
+        return "Flag rules must be an array";
+    }
+    for (const rule of rules) {
+        if (!isPlainObject(rule)) {
+            return "Flag rules must be objects";
+        }
+        if (!Object.prototype.hasOwnProperty.call(variants, rule.variant)) {
+            return `Unknown variant "${rule.variant}" in a rule`;
+        }
+        if (rule.percentage !== undefined && !(rule.percentage >= 0 && rule.percentage <= 100)) {
+            return "Rollout percentage must be between 0 and 100";
+        }
+        if (!Array.isArray(rule.conditions)) {
+            return "Rule conditions must be an array";
+        }
+        for (const condition of rule.conditions) {
+            if (!isPlainObject(condition) || typeof condition.attribute !== "string") {
+                return "Conditions must be objects with an attribute";
+            }
+            if (!FLAG_OPERATORS.includes(condition.operator)) {
+                return `Unknown operator "${condition.operator}"`;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Select the variant of a flag for the context. Rules are checked in order and the first matching one wins.
+ * @param key
+ * @param definition A valid flag definition
+ * @param context
+ * @returns
+ */
+export function evaluateFlag(key: string, definition: IFlagDefinition, context: IEvaluationContext): IFlagEvaluation {
+    const rules = definition.rules ?? [];
+    for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex++) {
+        const rule = rules[ruleIndex];
+        if (!rule.conditions.every((condition) => matchesCondition(condition, context))) {
+            continue;
+        }
+        const value = definition.variants[rule.variant];
+        if (rule.percentage === undefined) {
+            return { key, value, variant: rule.variant, reason: "RULE_MATCH", ruleIndex };
+        }
+
+        const id = context[definition.bucketBy ?? "userId"];
+        if (id !== undefined && rolloutBucket(definition.seed ?? key, String(id)) < rule.percentage) {
+            return { key, value, variant: rule.variant, reason: "ROLLOUT", ruleIndex };
+        }
+    }
+
+    return {
+        key,
+        value: definition.variants[definition.defaultVariant],
+        variant: definition.defaultVariant,
+        reason: "DEFAULT",
+    };
+}
+
+/**
+ * Check a single condition. Conditions on attributes missing from the context never match.
+ * @param condition
+ * @param context
+ * @returns
+ */
+export function matchesCondition(condition: IFlagCondition, context: IEvaluationContext): boolean {
+    const actual = context[condition.attribute];
+    if (actual === undefined) {
+        return false;
+    }
+    const expected = condition.value;
+
+    switch (condition.operator) {
+        case "equals":
+            return actual === expected;
+        case "notEquals":
+            return actual !== expected;
+        case "in":
+            return Array.isArray(expected) && expected.includes(actual);
+        case "notIn":
+            return Array.isArray(expected) && !expected.includes(actual);
+        case "contains":
+            return String(actual).includes(String(expected));
+        case "startsWith":
+            return String(actual).startsWith(String(expected));
+        case "endsWith":
+            return String(actual).endsWith(String(expected));
+        case "lt":
+            return Number(actual) < Number(expected);
+        case "lte":
+            return Number(actual) <= Number(expected);
+        case "gt":
+            return Number(actual) > Number(expected);
+        case "gte":
+            return Number(actual) >= Number(expected);
+        case "versionLt":
+            return compareVersions(String(actual), String(expected)) < 0;
+        case "versionLte":
+            return compareVersions(String(actual), String(expected)) <= 0;
+        case "versionGt":
+            return compareVersions(String(actual), String(expected)) > 0;
+        case "versionGte":
+            return compareVersions(String(actual), String(expected)) >= 0;
+    }
+    return false;
+}
+
+/**
+ * Compare dot separated versions numerically part by part, missing parts are 0. Pre-release suffixes are ignored.
+ * @param a
+ * @param b
+ * @returns Negative if a is lower, positive if a is higher and 0 if they are equal
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split(/[-+]/)[0].split(".").map((part) => parseInt(part, 10) || 0);
+    const partsB = b.split(/[-+]/)[0].split(".").map((part) => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Deterministic rollout bucket of an id. The same seed and id always get the same bucket.
+ * @param seed
+ * @param id
+ * @returns A number from 0 (inclusive) to 100 (exclusive) with two decimals
+ */
+export function rolloutBucket(seed: string, id: string): number {
+    return (fnv1a(`${seed}:${id}`) % 10000) / 100;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ * @param str
+ * @returns
+ */
+export function fnv1a(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -0,0 +1,179 @@
+import { ConfigData, ConfigObject } from "../interfaces/IConfigurationObject";
+
+/**
+ * Separator used in configuration paths like "http.timeoutMs"
+ */
+export const PATH_SEPARATOR = ".";
+
+/**
+ * Check if the value is a plain JSON object (not an array, class instance or null)
+ * @param val
+ * @returns
+ */
+export function isPlainObject(val: unknown): val is ConfigObject {
+    if (val === null || typeof val !== "object" || Array.isArray(val)) {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(val);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Check if the key is a dot separated path to a nested value
+ * @param key
+ * @returns
+ */
+export function isPath(key: string): boolean {
+    return key.includes(PATH_SEPARATOR);
+}
+
+/**
+ * Split a dot separated path into the root key and the remaining segments
+ * @param path
+ * @returns
+ */
+export function splitPath(path: string): [string, string[]] {
+    const [root, ...rest] = path.split(PATH_SEPARATOR);
+    return [root, rest];
+}
+
+/**
+ * Get a nested value from the data with path segments. Returns undefined if the path does not exist.
+ * @param data
+ * @param segments
+ * @returns
+ */
+export function getIn(data: ConfigData | undefined, segments: string[]): ConfigData | undefined {
+    let current: ConfigData | undefined = data;
+    for (const segment of segments) {
+        if (Array.isArray(current)) {
+            current = current[Number(segment)];
+        } else if (isPlainObject(current)) {
+            current = Object.prototype.hasOwnProperty.call(current, segment) ? current[segment] : undefined;
+        } else {
+            return undefined;
+        }
+    }
+    return current;
+}
+
+/**
+ * Return a copy of the data with the nested value set. Missing objects along the path are created.
+ * @param data
+ * @param segments
+ * @param value
+ * @returns
+ */
+export function setIn(data: ConfigData | undefined, segments: string[], value: ConfigData): ConfigData {
+    if (segments.length === 0) {
+        return value;
+    }
+    const [head, ...rest] = segments;
+    if (Array.isArray(data)) {
+        const copy = [...data];
+        copy[Number(head)] = setIn(copy[Number(head)], rest, value);
+        return copy;
+    }
+    const copy: ConfigObject = isPlainObject(data) ? { ...data } : {};
+    copy[head] = setIn(copy[head], rest, value);
+    return copy;
+}
+
+/**
+ * Return a copy of the data with the nested value removed. Objects left empty are removed too.
+ * @param data
+ * @param segments
+ * @returns The new data or undefined if nothing is left
+ */
+export function deleteIn(data: ConfigData | undefined, segments: string[]): ConfigData | undefined {
+    if (segments.length === 0) {
+        return undefined;
+    }
+    if (!isPlainObject(data)) {
+        return data;
+    }
+    const [head, ...rest] = segments;
+    if (!Object.prototype.hasOwnProperty.call(data, head)) {
+        return data;
+    }
+    const copy: ConfigObject = { ...data };
+    const child = deleteIn(copy[head], rest);
+    if (child === undefined) {
+        delete copy[head];
+    } else {
+        copy[head] = child;
+    }
+    return Object.keys(copy).length > 0 ? copy : undefined;
+}
+
+/**
+ * Deep merge two values. Plain objects are merged key by key, everything else
+ * (including arrays) is replaced by the override value.
+ * @param base
+ * @param override
+ * @returns
+ */
+export function deepMerge(base: ConfigData | undefined, override: ConfigData): ConfigData {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return override;
+    }
+    const merged: ConfigObject = { ...base };
+    Object.keys(override).forEach((key) => {
+        merged[key] = deepMerge(merged[key], override[key]);
+    });
+    return merged;
+}
+
+/**
+ * Deep copy of the configuration data
+ * @param data
+ * @returns
+ */
+export function deepClone<V extends ConfigData>(data: V): V {
+    if (Array.isArray(data)) {
+        return data.map((item) => deepClone(item)) as V;
+    }
+    if (isPlainObject(data)) {
+        return Object.keys(data).reduce((acc, key) => {
+            acc[key] = deepClone(data[key]);
+            return acc;
+        }, {} as ConfigObject) as V;
+    }
+    return data;
+}
+
+/**
+ * Freeze the configuration data and all nested objects and arrays
+ * @param data
+ * @returns
+ */
+export function deepFreeze<V extends ConfigData>(data: V): V {
+    if (Array.isArray(data) || isPlainObject(data)) {
+        Object.values(data).forEach((item) => deepFreeze(item));
+        Object.freeze(data);
+    }
+    return data;
+}
+
+/**
+ * Structural equality of two configuration values
+ * @param a
+ * @param b
+ * @returns
+ */
+export function isDeepEqual(a: ConfigData | undefined, b: ConfigData | undefined): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return (
+            keys.length === Object.keys(b).length &&
+            keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]))
+        );
+    }
+    return false;
+}
@@ -0,0 +1,51 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { WritePolicies } from "../interfaces/IWritePolicies";
+import { PATH_SEPARATOR } from "./objectPaths";
+
+/**
+ * Find the levels allowed to write the key.
+ *
+ * Exact keys win over patterns: the key itself and then each parent path up to the top level key are
+ * looked up first. Only if none of them has a policy, the patterns are matched in the same order.
+ * Patterns are checked in the order they are declared.
+ *
+ * @param policies
+ * @param key A key or a dot separated path
+ * @returns The allowed levels or undefined if no policy matches
+ */
+export function findWritePolicy(policies: WritePolicies | undefined, key: string): ConfigLevel[] | undefined {
+    if (!policies) {
+        return undefined;
+    }
+
+    const segments = key.split(PATH_SEPARATOR);
+    const candidates = segments.map((_, index) => segments.slice(0, segments.length - index).join(PATH_SEPARATOR));
+
+    const exact = candidates.find((candidate) => Object.prototype.hasOwnProperty.call(policies, candidate));
+    if (exact !== undefined) {
+        return policies[exact];
+    }
+
+    const patterns = Object.keys(policies).filter((pattern) => pattern.includes("*"));
+    for (const candidate of candidates) {
+        const pattern = patterns.find((p) => matchesPattern(p, candidate));
+        if (pattern !== undefined) {
+            return policies[pattern];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Match a key against a pattern where `*` matches any characters
+ * @param pattern
+ * @param key
+ * @returns
+ */
+export function matchesPattern(pattern: string, key: string): boolean {
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`).test(key);
+}
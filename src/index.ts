@@ -6,8 +6,63 @@ export * from "./enums/CONFIGLEVEL";
 
 export * from "./enums/ERRORCODES";
 
+export * from "./version";
+
 export * from "./interfaces/IConfigurationObject";
 
+export * from "./interfaces/IConfigPaths";
+
+export * from "./interfaces/IConfigSchema";
+
+export * from "./interfaces/IConfigMetadata";
+
+export * from "./interfaces/IConfigurationErrorDetails";
+
+export * from "./interfaces/IPersistenceAdapter";
+
+export * from "./interfaces/IBackendUpdate";
+
+export * from "./interfaces/IConfigChangeRecord";
+export * from "./interfaces/IHistoryEntry";
+
+export * from "./interfaces/IConfigExplanation";
+
+export * from "./interfaces/IWritePolicies";
+
+export * from "./interfaces/IComputedKeys";
+
+export * from "./interfaces/IFeatureFlag";
+
+export * from "./interfaces/IMigrations";
+
+export * from "./interfaces/IConfigSnapshot";
+
+export * from "./interfaces/IConfigStoreSnapshot";
+
+export * from "./helpers/configurationObjects";
+
+export * from "./helpers/featureFlags";
+
+export * from "./persistence/WebStorageAdapter";
+
+export * from "./persistence/IndexedDBAdapter";
+
+export * from "./persistence/MemoryAdapter";
+
+export * from "./loaders/coerceValue";
+
+export * from "./loaders/environmentVariables";
+
 export * from "./react/useConfig";
 
 export * from "./react/useConfigs";
+
+export * from "./react/useConfigSelector";
+
+export * from "./react/ConfigProvider";
+
+export * from "./react/ConfigInspector";
+
+export * from "./react/useUserSettingsForm";
+
+export * from "./react/ConfigForm";
@@ -0,0 +1,116 @@
+import { ConfigurationError } from "../ConfigurationError";
+import { ConfigObject } from "./IConfigurationObject";
+
+/**
+ * Retry behaviour of the backend auto-update when the backend update function fails
+ */
+export interface IBackendRetryOptions {
+    /**
+     * How many times a failed update is retried with backoff before falling back to the
+     * normal update interval. Polling is never stopped because of failures.
+     */
+    maxAttempts: number;
+
+    /**
+     * Delay in milliseconds before the first retry
+     */
+    initialDelayMs: number;
+
+    /**
+     * Upper limit for the delay between retries
+     */
+    maxDelayMs: number;
+
+    /**
+     * Each retry waits this many times longer than the previous one
+     */
+    multiplier: number;
+
+    /**
+     * Random variation of the delay as a fraction of the delay. 0.2 means ±20%.
+     */
+    jitter: number;
+}
+
+/**
+ * Current state of the backend auto-update
+ */
+export interface IBackendStatus {
+    /**
+     * True when the auto-update has been started and not stopped
+     */
+    running: boolean;
+
+    /**
+     * Timestamp (ms) of the last successful update or null if no update has succeeded yet
+     */
+    lastSuccessAt: number | null;
+
+    /**
+     * The error of the latest failed update. Cleared on the next successful update.
+     */
+    lastError: ConfigurationError | null;
+
+    /**
+     * Number of failed updates since the last successful update
+     */
+    consecutiveFailures: number;
+
+    /**
+     * Timestamp (ms) of the next scheduled update or null if nothing is scheduled
+     */
+    nextRunAt: number | null;
+
+    /**
+     * True while the push transport is connected. Polling is paused while connected.
+     */
+    pushConnected: boolean;
+}
+
+/**
+ * Message received from the push transport. A snapshot replaces the whole BACKEND level and
+ * a patch updates only the given keys.
+ */
+export interface IBackendPushMessage {
+    type: "snapshot" | "patch";
+
+    /**
+     * Raw configuration values. Patches can use dot paths as keys.
+     */
+    config: ConfigObject;
+}
+
+/**
+ * The connection used by the push transport. Both EventSource and WebSocket fulfil this interface,
+ * so `() => new EventSource(url)` or `() => new WebSocket(url)` can be used as the connect function.
+ */
+export interface IBackendPushSocket {
+    onopen: ((event: any) => void) | null;
+
+    /**
+     * The data is either a JSON string or an already parsed IBackendPushMessage
+     */
+    onmessage: ((event: { data: any }) => void) | null;
+    onerror: ((event: any) => void) | null;
+
+    /**
+     * EventSource has no close event, it reports lost connections with an error
+     */
+    onclose?: ((event: any) => void) | null;
+    close(): void;
+}
+
+/**
+ * Options for the push based backend updates
+ */
+export interface IBackendPushOptions {
+    /**
+     * Open a new connection. Called again for every reconnect.
+     */
+    connect: () => IBackendPushSocket;
+
+    /**
+     * Backoff used for reconnecting. Reconnecting is never given up while the push is running.
+     */
+    reconnect?: Partial<Omit<IBackendRetryOptions, "maxAttempts">>;
+}
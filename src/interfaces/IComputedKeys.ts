@@ -0,0 +1,26 @@
+import { ConfigData, IConfig } from "./IConfigurationObject";
+
+/**
+ * A key whose value is derived from other keys
+ */
+export interface IComputedKey<T extends IConfig, V = ConfigData> {
+    /**
+     * Keys or dot separated paths the value depends on. The value is recomputed when any of them changes.
+     */
+    dependencies: (keyof T)[];
+
+    /**
+     * Compute the value from the current raw values of the configuration. Only the declared
+     * dependencies should be read, as changes to other keys do not trigger a recomputation.
+     * @param values
+     * @returns
+     */
+    compute: (values: T) => V;
+}
+
+/**
+ * Computed keys of the configuration by key
+ */
+export type ComputedKeys<T extends IConfig> = {
+    [K in keyof T]?: IComputedKey<T, T[K]>;
+};
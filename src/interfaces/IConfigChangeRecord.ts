@@ -0,0 +1,38 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigData, IConfig } from "./IConfigurationObject";
+import { IHistoryEntry } from "./IHistoryEntry";
+
+/**
+ * Describes how the effective value of a single key changed
+ */
+export interface IConfigChangeRecord<T extends IConfig> {
+    /**
+     * The key or the dot separated path the listener subscribed to
+     */
+    key: keyof T;
+
+    /**
+     * Effective value before the change or undefined if the value did not exist
+     */
+    oldValue: ConfigData | undefined;
+
+    /**
+     * Effective value after the change or undefined if the value was removed
+     */
+    newValue: ConfigData | undefined;
+
+    /**
+     * The level that provided the old value or null if the value did not exist
+     */
+    oldLevel: ConfigLevel | null;
+
+    /**
+     * The level that provides the new value or null if the value was removed
+     */
+    newLevel: ConfigLevel | null;
+
+    /**
+     * History entries of the writes that caused the change, when the history is enabled
+     */
+    history?: IHistoryEntry<T>[];
+}
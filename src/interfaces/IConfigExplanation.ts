@@ -0,0 +1,75 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigData, IConfig } from "./IConfigurationObject";
+
+/**
+ * The value a single level holds for a key
+ */
+export interface IConfigLevelValue {
+    level: ConfigLevel;
+
+    /**
+     * True if the level has a value for the key
+     */
+    present: boolean;
+
+    /**
+     * The raw value on this level, undefined when not present
+     */
+    value: ConfigData | undefined;
+}
+
+/**
+ * A write that was not applied because the key is in readOnlyKeys
+ */
+export interface IBlockedWrite<T extends IConfig> {
+    /**
+     * The key or dot separated path that was written
+     */
+    key: keyof T;
+    level: ConfigLevel;
+    value: ConfigData;
+
+    /**
+     * Timestamp (ms) of the write attempt
+     */
+    at: number;
+}
+
+/**
+ * Explains where the effective value of a key comes from
+ */
+export interface IConfigExplanation<T extends IConfig> {
+    key: keyof T;
+
+    /**
+     * The effective value after merging all levels
+     */
+    value: ConfigData | undefined;
+
+    /**
+     * The level that provides the effective value or null if no level has a value
+     */
+    winningLevel: ConfigLevel | null;
+
+    readonly: boolean;
+
+    /**
+     * True if the key is in secretKeys, the values are redacted
+     */
+    secret: boolean;
+
+    /**
+     * Levels that may write the key and have a high enough precedence to change the effective value
+     */
+    writableLevels: ConfigLevel[];
+
+    /**
+     * Values of every level from the lowest to the highest precedence
+     */
+    levels: IConfigLevelValue[];
+
+    /**
+     * The latest writes blocked by readOnlyKeys, oldest first
+     */
+    blockedWrites: IBlockedWrite<T>[];
+}
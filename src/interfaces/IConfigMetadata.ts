@@ -0,0 +1,72 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigPrimitive, IConfig } from "./IConfigurationObject";
+import { ConfigPath } from "./IConfigPaths";
+
+/**
+ * Input used for a key in generated settings forms
+ *
+ * - text, password, number and checkbox: the matching input element
+ * - select: a drop-down of the options or the enum of the schema
+ * - textarea: multi-line text
+ * - json: objects and arrays edited as JSON in a textarea
+ */
+export type ConfigInputKind = "text" | "password" | "number" | "checkbox" | "select" | "textarea" | "json";
+
+/**
+ * A choice of a select input
+ */
+export interface IConfigKeyOption {
+    value: ConfigPrimitive;
+
+    /**
+     * Text shown for the option, defaults to the value
+     */
+    label?: string;
+}
+
+/**
+ * Descriptive information about a single configuration key, used to generate settings forms
+ */
+export interface IConfigKeyMetadata {
+    /**
+     * Human readable name of the key, defaults to the key
+     */
+    label?: string;
+
+    /**
+     * Help text shown with the input
+     */
+    description?: string;
+
+    /**
+     * Keys with the same category are grouped together
+     */
+    category?: string;
+
+    /**
+     * Input used for the key, by default inferred from the options and the type of the value
+     */
+    input?: ConfigInputKind;
+
+    /**
+     * Allowed values for a select input, defaults to the enum of the schema
+     */
+    options?: IConfigKeyOption[];
+
+    /**
+     * Hidden keys are left out of generated forms
+     */
+    hidden?: boolean;
+
+    /**
+     * Levels whose forms show the key, defaults to every level. For example ["backend"] for admin only keys.
+     */
+    levels?: ConfigLevel[];
+}
+
+/**
+ * Metadata for the whole configuration. Nested values can be described by using dot separated paths as keys.
+ */
+export type ConfigMetadata<T extends IConfig> = {
+    [K in ConfigPath<T>]?: IConfigKeyMetadata;
+};
@@ -0,0 +1,64 @@
+import { ConfigPrimitive, IConfigurationObject } from "./IConfigurationObject";
+
+/**
+ * Keys declared in a configuration interface without the index signature inherited from IConfig
+ */
+export type KnownKeys<T> = keyof {
+    [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+} & string;
+
+/**
+ * Remaining depth of nested paths, limits the recursion of ConfigPath
+ */
+type PrevDepth = [never, 0, 1, 2, 3];
+
+/**
+ * Dot separated paths to the nested values below the prefix
+ */
+type NestedPaths<V, Prefix extends string, D extends number> = [D] extends [never]
+    ? never
+    : V extends readonly (infer E)[]
+      ? `${Prefix}.${number}` | NestedPaths<E, `${Prefix}.${number}`, PrevDepth[D]>
+      : V extends ConfigPrimitive | IConfigurationObject
+        ? never
+        : V extends object
+          ? [KnownKeys<V>] extends [never]
+              ? `${Prefix}.${string}`
+              : { [K in KnownKeys<V>]: `${Prefix}.${K}` | NestedPaths<V[K], `${Prefix}.${K}`, PrevDepth[D]> }[KnownKeys<V>]
+          : never;
+
+/**
+ * A key of the configuration or a dot separated path like "http.timeoutMs" to a nested value.
+ *
+ * Configurations without declared keys (plain IConfig) accept any string.
+ */
+export type ConfigPath<T> = [KnownKeys<T>] extends [never]
+    ? string
+    : { [K in KnownKeys<T>]: K | NestedPaths<T[K], K, 4> }[KnownKeys<T>];
+
+/**
+ * Type of the value found at a key or a dot separated path
+ */
+export type PathValue<T, P extends string> =
+    T extends readonly (infer E)[]
+        ? P extends `${number}`
+            ? E
+            : P extends `${number}.${infer Rest}`
+              ? PathValue<E, Rest>
+              : undefined
+        : P extends KnownKeys<T>
+          ? T[P]
+          : P extends `${infer Head}.${infer Rest}`
+            ? Head extends keyof T
+                ? PathValue<T[Head], Rest>
+                : undefined
+            : P extends keyof T
+              ? T[P]
+              : undefined;
+
+/**
+ * Values given to subscribe() callbacks by the subscribed key. Subscribing without keys gives the whole configuration.
+ */
+export type ChangedValues<T, K extends string> = [K] extends [never]
+    ? { [P in keyof T]: IConfigurationObject<T[P]> }
+    : { [P in K]?: IConfigurationObject<PathValue<T, P>> };
@@ -0,0 +1,61 @@
+import { ConfigValue, IConfig } from "./IConfigurationObject";
+
+/**
+ * Value types that can be declared for a configuration key in the schema
+ */
+export type ConfigValueType = "string" | "number" | "boolean" | "object" | "array";
+
+/**
+ * Validation rules for a single configuration key.
+ *
+ * All rules are optional and only the ones provided are checked.
+ */
+export interface IConfigKeySchema {
+    /**
+     * Expected type of the value
+     */
+    type?: ConfigValueType;
+
+    /**
+     * Minimum value for numbers or minimum length for strings and arrays
+     */
+    min?: number;
+
+    /**
+     * Maximum value for numbers or maximum length for strings and arrays
+     */
+    max?: number;
+
+    /**
+     * List of allowed values
+     */
+    enum?: ConfigValue[];
+
+    /**
+     * Regular expression string values must match
+     */
+    pattern?: RegExp;
+
+    /**
+     * Custom validator function. Return true if the value is valid. Returning false or
+     * a string marks the value as invalid, where the string is used as the reason.
+     */
+    validator?: (value: ConfigValue) => boolean | string;
+}
+
+/**
+ * Schema for the whole configuration, declaring validation rules per key.
+ *
+ * Nested values can be validated by using dot separated paths like "http.timeoutMs" as keys.
+ */
+export type ConfigSchema<T extends IConfig> = {
+    [K in keyof T]?: IConfigKeySchema;
+};
+
+/**
+ * What to do when a value fails the schema validation
+ *
+ * - reject: throw a ConfigurationError and do not apply any of the provided values
+ * - warn: log a warning and drop the invalid value, other values are applied normally
+ */
+export type ValidationPolicy = "reject" | "warn";
@@ -0,0 +1,49 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigData } from "./IConfigurationObject";
+
+/**
+ * Current version of the snapshot document format
+ */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/**
+ * JSON document with the values of every configuration level, created with exportSnapshot()
+ */
+export interface IConfigSnapshot {
+    format: "hcconfig-snapshot";
+
+    /**
+     * Version of the document format, increased on incompatible changes
+     */
+    formatVersion: number;
+
+    /**
+     * Version of the library that created the snapshot
+     */
+    libraryVersion: string;
+
+    /**
+     * The schemaVersion option of the instance that created the snapshot
+     */
+    schemaVersion?: number;
+
+    /**
+     * Creation time as an ISO 8601 string
+     */
+    createdAt: string;
+
+    /**
+     * Raw values of each level, levels in the order of precedence from lowest to highest
+     */
+    levels: Record<ConfigLevel, Record<string, ConfigData>>;
+}
+
+/**
+ * Options for importSnapshot()
+ */
+export interface ISnapshotImportOptions {
+    /**
+     * Levels to restore. Defaults to every level of the instance found in the snapshot, except the default level.
+     */
+    levels?: ConfigLevel[];
+}
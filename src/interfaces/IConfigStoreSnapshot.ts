@@ -0,0 +1,25 @@
+import { IConfig } from "./IConfigurationObject";
+import { ConfigPath, PathValue } from "./IConfigPaths";
+
+/**
+ * Immutable view of the effective values returned by getSnapshot(). The same object is returned
+ * until the values change, so it can be used as the snapshot of an external store.
+ */
+export interface IConfigStoreSnapshot<T extends IConfig> {
+    /**
+     * Increases by one every time the listeners are notified of changed values
+     */
+    revision: number;
+
+    /**
+     * Raw effective values without the IConfigurationObject wrappers, secrets redacted
+     */
+    values: Readonly<T>;
+
+    /**
+     * Get a value of the snapshot by its key or by a dot separated path to a nested value
+     * @param key
+     * @returns
+     */
+    getValue<K extends ConfigPath<T>>(key: K): PathValue<T, K>;
+}
@@ -0,0 +1,37 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigValue } from "./IConfigurationObject";
+
+/**
+ * Structured information attached to a ConfigurationError
+ */
+export interface IConfigurationErrorDetails {
+    /**
+     * The configuration key the error relates to
+     */
+    key?: string;
+
+    /**
+     * The configuration level the error relates to
+     */
+    level?: ConfigLevel;
+
+    /**
+     * The offending value
+     */
+    value?: ConfigValue;
+
+    /**
+     * Human readable reason for the error
+     */
+    reason?: string;
+
+    /**
+     * The file the error relates to, when loading configuration files
+     */
+    file?: string;
+
+    /**
+     * Line number (starting from 1) in the file
+     */
+    line?: number;
+}
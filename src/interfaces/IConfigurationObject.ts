@@ -1,6 +1,23 @@
-import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
 
-export type ConfigValue = string | number | boolean | IConfigurationObject;
+/**
+ * Primitive configuration values
+ */
+export type ConfigPrimitive = string | number | boolean;
+
+/**
+ * Nested JSON object as a configuration value
+ */
+export interface ConfigObject {
+    [key: string]: ConfigData;
+}
+
+/**
+ * Raw configuration data: primitives, arrays and nested JSON objects
+ */
+export type ConfigData = ConfigPrimitive | ConfigData[] | ConfigObject;
+
+export type ConfigValue = ConfigData | IConfigurationObject;
 
 /**
  * The main configuration interface representing a collection of configuration keys and their values.
@@ -11,12 +28,19 @@ export interface IConfig {
 
 /**
  * An extended configuration interface that includes meta data about each configuration value.
- * 
+ *
  * Used internally by the Configuration class to track the source level of each configuration entry.
+ * Wrappers created by the library are marked so that they can be told apart from user data,
+ * use `isConfigurationObject()` to check a value.
  */
-export interface IConfigurationObject {
-    value: ConfigValue;
-    level: CONFIGLEVEL;
+export interface IConfigurationObject<V = ConfigValue> {
+    value: V;
+    level: ConfigLevel;
     readonly?: boolean;
-    
+
+    /**
+     * Levels that may still change the value, only provided by getConfig()
+     */
+    writableLevels?: ConfigLevel[];
+
 }
@@ -0,0 +1,124 @@
+import { ConfigData } from "./IConfigurationObject";
+
+/**
+ * Context the flag rules are evaluated against, for example the current user and app
+ */
+export interface IEvaluationContext {
+    userId?: string;
+    country?: string;
+    plan?: string;
+    appVersion?: string;
+    [attribute: string]: string | number | boolean | undefined;
+}
+
+/**
+ * Operators for comparing a context attribute with the value of a condition.
+ *
+ * - in, notIn: the condition value is an array of allowed values
+ * - lt, lte, gt, gte: numeric comparison
+ * - versionLt, versionLte, versionGt, versionGte: comparison of dot separated versions like "2.10.1"
+ */
+export type FlagOperator =
+    | "equals"
+    | "notEquals"
+    | "in"
+    | "notIn"
+    | "contains"
+    | "startsWith"
+    | "endsWith"
+    | "lt"
+    | "lte"
+    | "gt"
+    | "gte"
+    | "versionLt"
+    | "versionLte"
+    | "versionGt"
+    | "versionGte";
+
+export interface IFlagCondition {
+    /**
+     * Name of the context attribute
+     */
+    attribute: string;
+    operator: FlagOperator;
+    value: ConfigData;
+}
+
+/**
+ * Targeting rule selecting a variant when all the conditions match
+ */
+export interface IFlagRule {
+    /**
+     * Conditions that must all match. A rule without conditions matches every context.
+     */
+    conditions: IFlagCondition[];
+    variant: string;
+
+    /**
+     * Only select the variant for this percentage (0-100) of the matching contexts. The contexts
+     * are bucketed deterministically by hashing the bucketBy attribute. Others continue to the next rule.
+     */
+    percentage?: number;
+}
+
+/**
+ * Feature flag definition stored as the value of a key, for example delivered on the BACKEND level.
+ * The effective value of the key is the value of the variant selected for the evaluation context.
+ */
+export interface IFlagDefinition {
+    kind: "flag";
+
+    /**
+     * Values of the flag by variant name
+     */
+    variants: Record<string, ConfigData>;
+
+    /**
+     * Variant used when no rule matches
+     */
+    defaultVariant: string;
+
+    /**
+     * Rules checked in order, the first matching rule selects the variant
+     */
+    rules?: IFlagRule[];
+
+    /**
+     * Context attribute used for percentage rollouts. Defaults to "userId".
+     */
+    bucketBy?: string;
+
+    /**
+     * Seed for the rollout hash. Defaults to the key so that different flags bucket the same id differently.
+     */
+    seed?: string;
+}
+
+/**
+ * Why the variant was selected
+ *
+ * - RULE_MATCH: a targeting rule matched
+ * - ROLLOUT: a rule with a percentage matched and the context is in the rollout
+ * - DEFAULT: no rule matched and the default variant was used
+ * - STATIC: the value of the key is not a flag definition
+ */
+export type FlagEvaluationReason = "RULE_MATCH" | "ROLLOUT" | "DEFAULT" | "STATIC";
+
+/**
+ * Result of evaluating a key with evaluate()
+ */
+export interface IFlagEvaluation {
+    key: string;
+    value: ConfigData | undefined;
+
+    /**
+     * Selected variant or null when the value is not a flag definition
+     */
+    variant: string | null;
+    reason: FlagEvaluationReason;
+
+    /**
+     * Index of the rule that selected the variant
+     */
+    ruleIndex?: number;
+}
@@ -0,0 +1,43 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigData, IConfig } from "./IConfigurationObject";
+
+/**
+ * A single change of a key on the USER or DYNAMIC level recorded in the history
+ */
+export interface IHistoryEntry<T extends IConfig> {
+    /**
+     * Running number of the entry
+     */
+    id: number;
+
+    /**
+     * The top level key that changed
+     */
+    key: keyof T;
+    level: ConfigLevel;
+
+    /**
+     * Value on the level before the change or undefined if the level had no value
+     */
+    oldValue: ConfigData | undefined;
+
+    /**
+     * Value on the level after the change or undefined if the value was removed from the level
+     */
+    newValue: ConfigData | undefined;
+
+    /**
+     * Timestamp (ms) of the change
+     */
+    at: number;
+
+    /**
+     * Optional actor or source tag given to the setter
+     */
+    source?: string;
+
+    /**
+     * A normal write or a change made by undo() or redo()
+     */
+    action: "write" | "undo" | "redo";
+}
@@ -0,0 +1,35 @@
+import { ConfigObject, IConfig } from "./IConfigurationObject";
+
+/**
+ * Migration of stored values to a newer schema version
+ */
+export interface IConfigMigration {
+    /**
+     * The schema version the migration upgrades the values to
+     */
+    version: number;
+
+    /**
+     * Transform the raw values of the previous version. The values can be modified freely.
+     * @param values
+     * @returns The values in the new version
+     */
+    migrate: (values: ConfigObject) => ConfigObject;
+}
+
+/**
+ * A key that has been renamed. The old key still reads and writes the replacement.
+ */
+export interface IDeprecatedKey<T extends IConfig> {
+    replacement: keyof T;
+
+    /**
+     * Additional information added to the deprecation warning
+     */
+    message?: string;
+}
+
+/**
+ * Deprecated keys by the old key
+ */
+export type DeprecatedKeys<T extends IConfig> = Record<string, IDeprecatedKey<T>>;
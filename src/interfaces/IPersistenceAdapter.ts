@@ -0,0 +1,40 @@
+import { ConfigObject } from "./IConfigurationObject";
+
+/**
+ * The document stored by the persistence adapters
+ */
+export interface IPersistedUserConfig {
+    /**
+     * Raw user level values
+     */
+    values: ConfigObject;
+
+    /**
+     * Schema version of the values. Missing when the schemaVersion option is not used.
+     */
+    version?: number;
+}
+
+/**
+ * Adapter used to load and save the USER level configuration values.
+ *
+ * Methods can be synchronous or return a promise. Synchronous adapters are hydrated
+ * already during the construction of the Configuration instance.
+ */
+export interface IPersistenceAdapter {
+    /**
+     * Load the stored user configuration. Returns null if nothing is stored.
+     * Should throw a ConfigurationError with PERSISTENCE_CORRUPT_DATA if the stored data can not be read.
+     */
+    load(key: string): IPersistedUserConfig | null | Promise<IPersistedUserConfig | null>;
+
+    /**
+     * Save the user configuration
+     */
+    save(key: string, data: IPersistedUserConfig): void | Promise<void>;
+
+    /**
+     * Remove the stored user configuration
+     */
+    remove(key: string): void | Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
+
+/**
+ * Declares which levels may write which keys.
+ *
+ * The keys of the object are configuration keys, dot separated paths or patterns where `*` matches
+ * any characters, like `"feature.*"`. The value lists the levels allowed to write matching keys.
+ * Keys without a matching policy can be written by every level.
+ */
+export type WritePolicies = Record<string, ConfigLevel[]>;
@@ -0,0 +1,71 @@
+import { isPlainObject } from "../helpers/objectPaths";
+import { ConfigData } from "../interfaces/IConfigurationObject";
+import { typeOfValue } from "../validation/validateConfigValue";
+
+/**
+ * Result of a coercion: either the coerced value or the reason why it could not be coerced
+ */
+export type CoercionResult = { ok: true; value: ConfigData } | { ok: false; reason: string };
+
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+/**
+ * Coerce a string to the same type as the reference value.
+ *
+ * Booleans accept true/false, 1/0, yes/no and on/off. Objects and arrays are parsed as JSON.
+ *
+ * @param raw The string value, for example from an environment variable
+ * @param reference Value whose type the string is coerced to, typically the default value of the key
+ * @returns
+ */
+export function coerceValue(raw: string, reference: ConfigData): CoercionResult {
+    switch (typeOfValue(reference)) {
+        case "string":
+            return { ok: true, value: raw };
+        case "number": {
+            const trimmed = raw.trim();
+            const num = Number(trimmed);
+            if (trimmed === "" || Number.isNaN(num)) {
+                return { ok: false, reason: `"${raw}" is not a number` };
+            }
+            return { ok: true, value: num };
+        }
+        case "boolean": {
+            const lower = raw.trim().toLowerCase();
+            if (TRUE_VALUES.includes(lower)) {
+                return { ok: true, value: true };
+            }
+            if (FALSE_VALUES.includes(lower)) {
+                return { ok: true, value: false };
+            }
+            return { ok: false, reason: `"${raw}" is not a boolean` };
+        }
+        case "array":
+        case "object": {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(raw);
+            } catch {
+                return { ok: false, reason: `"${raw}" is not valid JSON` };
+            }
+            return checkType(parsed as ConfigData, reference);
+        }
+    }
+    return { ok: false, reason: `Unsupported type ${typeOfValue(reference)}` };
+}
+
+/**
+ * Check that an already parsed value has the same type as the reference value
+ * @param value
+ * @param reference
+ * @returns
+ */
+export function checkType(value: ConfigData, reference: ConfigData): CoercionResult {
+    const expected = typeOfValue(reference);
+    const actual = typeOfValue(value);
+    if (expected !== actual || (actual === "object" && !isPlainObject(value))) {
+        return { ok: false, reason: `Expected type ${expected} but got ${actual}` };
+    }
+    return { ok: true, value };
+}
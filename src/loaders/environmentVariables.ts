@@ -0,0 +1,147 @@
+import { getIn, isPlainObject } from "../helpers/objectPaths";
+import { ConfigData, ConfigObject, IConfig } from "../interfaces/IConfigurationObject";
+import { coerceValue } from "./coerceValue";
+
+/**
+ * Options for loading configuration values from environment variables
+ */
+export interface IEnvironmentLoaderOptions {
+    /**
+     * Only variables starting with the prefix are used, like "APP_". Without a prefix, variables
+     * that do not match any configuration key are ignored instead of being reported as unknown.
+     */
+    prefix?: string;
+
+    /**
+     * Explicit mapping from full variable names to configuration keys or dot paths.
+     * Mapped names do not need to have the prefix.
+     */
+    nameMap?: Record<string, string>;
+
+    /**
+     * Report variables that do not match any key as unknown. Defaults to true when a prefix is given.
+     */
+    reportUnknown?: boolean;
+
+    /**
+     * Separator for nested values. With the default "__" the variable APP_HTTP__TIMEOUT_MS maps to "http.timeoutMs".
+     */
+    nestingSeparator?: string;
+}
+
+/**
+ * A variable that matched a key but could not be coerced to the type of its default value
+ */
+export interface IInvalidEnvironmentVariable {
+    name: string;
+    key: string;
+    value: string;
+    reason: string;
+}
+
+/**
+ * Result of loading environment variables
+ */
+export interface IEnvironmentLoaderResult<T extends IConfig> {
+    /**
+     * Coerced values that can be given to setEnvironmentConfig(). Nested values use dot path keys.
+     */
+    config: Partial<T>;
+
+    /**
+     * Names of the variables with the prefix that did not match any key or were mapped to an unknown key
+     */
+    unknownKeys: string[];
+
+    /**
+     * Variables whose values could not be coerced
+     */
+    invalidKeys: IInvalidEnvironmentVariable[];
+}
+
+/**
+ * Map environment variables to configuration keys and coerce their string values to the types of the default values.
+ *
+ * With the prefix "APP_" the variable APP_API_TIMEOUT maps to the key apiTimeout.
+ *
+ * @param defaults Raw default values (not IConfigurationObjects) used to find the keys and their types
+ * @param env Environment variables, like process.env or import.meta.env
+ * @param options
+ * @returns
+ */
+export function loadEnvironmentVariables<T extends IConfig>(
+    defaults: Partial<T>,
+    env: Record<string, string | boolean | undefined>,
+    options: IEnvironmentLoaderOptions = {}
+): IEnvironmentLoaderResult<T> {
+    const { prefix = "", nameMap = {}, nestingSeparator = "__", reportUnknown = prefix !== "" } = options;
+    const result: IEnvironmentLoaderResult<T> = { config: {}, unknownKeys: [], invalidKeys: [] };
+
+    Object.keys(env).forEach((name) => {
+        const raw = env[name];
+        if (raw === undefined) {
+            return;
+        }
+
+        let path: string[] | null = null;
+        if (nameMap[name] !== undefined) {
+            path = nameMap[name].split(".");
+        } else if (name.startsWith(prefix)) {
+            path = matchPath(defaults as ConfigObject, name.slice(prefix.length).split(nestingSeparator));
+            if (path === null) {
+                if (reportUnknown) {
+                    result.unknownKeys.push(name);
+                }
+                return;
+            }
+        } else {
+            return;
+        }
+
+        const key = path.join(".");
+        const reference = getIn(defaults as ConfigObject, path);
+        if (reference === undefined) {
+            result.unknownKeys.push(name);
+            return;
+        }
+
+        const coerced = coerceValue(String(raw), reference);
+        if (!coerced.ok) {
+            result.invalidKeys.push({ name, key, value: String(raw), reason: coerced.reason });
+            return;
+        }
+        result.config[key as keyof T] = coerced.value as T[keyof T];
+    });
+
+    return result;
+}
+
+/**
+ * Match the variable name segments to the keys of the configuration.
+ * Comparison ignores case and underscores, so API_TIMEOUT matches apiTimeout.
+ * @param data
+ * @param segments
+ * @returns Path to the matched value or null if there is no match
+ */
+function matchPath(data: ConfigObject, segments: string[]): string[] | null {
+    const path: string[] = [];
+    let current: ConfigData = data;
+
+    for (const segment of segments) {
+        if (!isPlainObject(current)) {
+            return null;
+        }
+        const normalized = normalizeName(segment);
+        const key: string | undefined = Object.keys(current).find((k) => normalizeName(k) === normalized);
+        if (key === undefined) {
+            return null;
+        }
+        path.push(key);
+        current = current[key];
+    }
+    return path.length > 0 ? path : null;
+}
+
+function normalizeName(name: string): string {
+    return name.replace(/[_-]/g, "").toLowerCase();
+}
@@ -0,0 +1,3 @@
+export * from "./loadEnvironmentFiles";
+
+export * from "./parseConfigFile";
@@ -0,0 +1,182 @@
+import { readFile } from "fs/promises";
+import type { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { deepMerge, isPlainObject, setIn } from "../helpers/objectPaths";
+import { ConfigData, ConfigObject, IConfig } from "../interfaces/IConfigurationObject";
+import { checkType } from "../loaders/coerceValue";
+import { IEnvironmentLoaderOptions, loadEnvironmentVariables } from "../loaders/environmentVariables";
+import { detectConfigFileFormat, parseConfigFile } from "./parseConfigFile";
+
+/**
+ * Options for loading configuration files
+ */
+export interface IConfigFileLoaderOptions {
+    /**
+     * Throw the first unknown key or type mismatch error. When false, the invalid values are
+     * skipped and the errors are returned in the result. Parse errors are always thrown. Defaults to true.
+     */
+    strict?: boolean;
+
+    /**
+     * Options for mapping the variable names in .env files to configuration keys
+     */
+    env?: IEnvironmentLoaderOptions;
+}
+
+/**
+ * Result of loading configuration files
+ */
+export interface IConfigFileLoaderResult<T extends IConfig> {
+    /**
+     * Values of all files merged in the given order
+     */
+    config: Partial<T>;
+
+    /**
+     * Unknown keys and type mismatches that were skipped, only when strict is false
+     */
+    errors: ConfigurationError[];
+}
+
+/**
+ * Read and merge configuration files without applying them to any Configuration instance.
+ *
+ * The files are merged in the given order, so later files override the earlier ones.
+ * Values are checked against the default configuration: keys must exist and values must have the same type.
+ *
+ * @param defaults Raw default values
+ * @param files Paths to .json, .yaml, .yml, .toml or .env files
+ * @param options
+ * @returns
+ */
+export async function readConfigFiles<T extends IConfig>(
+    defaults: Partial<T>,
+    files: string[],
+    options: IConfigFileLoaderOptions = {}
+): Promise<IConfigFileLoaderResult<T>> {
+    const errors: ConfigurationError[] = [];
+    let merged: ConfigObject = {};
+
+    for (const file of files) {
+        const format = detectConfigFileFormat(file);
+
+        let content: string;
+        try {
+            content = await readFile(file, "utf8");
+        } catch (error) {
+            throw new ConfigurationError(ERRORCODES.CONFIG_FILE_READ_FAILED, error as Error, { file });
+        }
+
+        const data = parseConfigFile(content, file);
+        const values =
+            format === "env"
+                ? checkDotEnvValues(data as Record<string, string>, defaults as ConfigObject, file, options, errors)
+                : checkValues(data, defaults as ConfigObject, file, [], errors);
+
+        merged = deepMerge(merged, values) as ConfigObject;
+    }
+
+    if (options.strict !== false && errors.length > 0) {
+        throw errors[0];
+    }
+
+    return { config: merged as Partial<T>, errors };
+}
+
+/**
+ * Load configuration files into the ENVIRONMENT level of the configuration.
+ *
+ * @param conf Configuration instance
+ * @param files Paths to .json, .yaml, .yml, .toml or .env files, merged in the given order
+ * @param options
+ * @returns The applied values and the skipped errors when strict is false
+ */
+export async function loadEnvironmentFiles<T extends IConfig>(
+    conf: Configuration<T>,
+    files: string[],
+    options: IConfigFileLoaderOptions = {}
+): Promise<IConfigFileLoaderResult<T>> {
+    // Only the types of the defaults are needed, the redacted secrets would not have them
+    const result = await readConfigFiles<T>(conf.getDefaultTypes(), files, options);
+    conf.setEnvironmentConfig(result.config);
+    return result;
+}
+
+/**
+ * Check the values against the defaults recursively. Returns only the valid values.
+ */
+function checkValues(
+    data: ConfigObject,
+    reference: ConfigObject,
+    file: string,
+    path: string[],
+    errors: ConfigurationError[]
+): ConfigObject {
+    return Object.keys(data).reduce((acc, key) => {
+        const keyPath = [...path, key];
+        const value = data[key];
+
+        if (!Object.prototype.hasOwnProperty.call(reference, key)) {
+            errors.push(
+                new ConfigurationError(ERRORCODES.CONFIG_FILE_UNKNOWN_KEY, undefined, { file, key: keyPath.join(".") })
+            );
+            return acc;
+        }
+
+        const ref = reference[key];
+        if (isPlainObject(ref) && isPlainObject(value)) {
+            const nested = checkValues(value, ref, file, keyPath, errors);
+            if (Object.keys(nested).length > 0) {
+                acc[key] = nested;
+            }
+            return acc;
+        }
+
+        const checked = checkType(value, ref);
+        if (!checked.ok) {
+            errors.push(
+                new ConfigurationError(ERRORCODES.CONFIG_FILE_TYPE_MISMATCH, undefined, {
+                    file,
+                    key: keyPath.join("."),
+                    value,
+                    reason: checked.reason,
+                })
+            );
+            return acc;
+        }
+        acc[key] = value;
+        return acc;
+    }, {} as ConfigObject);
+}
+
+/**
+ * Map and coerce the variables of a .env file like environment variables
+ */
+function checkDotEnvValues(
+    data: Record<string, string>,
+    defaults: ConfigObject,
+    file: string,
+    options: IConfigFileLoaderOptions,
+    errors: ConfigurationError[]
+): ConfigObject {
+    const res = loadEnvironmentVariables(defaults, data, { reportUnknown: true, ...options.env });
+
+    res.unknownKeys.forEach((name) => {
+        errors.push(new ConfigurationError(ERRORCODES.CONFIG_FILE_UNKNOWN_KEY, undefined, { file, key: name }));
+    });
+    res.invalidKeys.forEach((invalid) => {
+        errors.push(
+            new ConfigurationError(ERRORCODES.CONFIG_FILE_TYPE_MISMATCH, undefined, {
+                file,
+                key: invalid.key,
+                value: invalid.value,
+                reason: invalid.reason,
+            })
+        );
+    });
+
+    return Object.keys(res.config).reduce((acc, path) => {
+        return setIn(acc, path.split("."), res.config[path] as ConfigData) as ConfigObject;
+    }, {} as ConfigObject);
+}
@@ -0,0 +1,177 @@
+import { parse as parseToml, TomlError } from "smol-toml";
+import { parse as parseYaml, YAMLParseError } from "yaml";
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { isPlainObject } from "../helpers/objectPaths";
+import { ConfigObject } from "../interfaces/IConfigurationObject";
+
+/**
+ * Supported configuration file formats
+ */
+export type ConfigFileFormat = "json" | "yaml" | "toml" | "env";
+
+/**
+ * Detect the format of the file from its name. Files named .env or .env.<suffix> and files ending with .env are dotenv files.
+ * @param file
+ * @returns
+ */
+export function detectConfigFileFormat(file: string): ConfigFileFormat {
+    const name = file.split(/[\\/]/).pop() ?? file;
+    const lower = name.toLowerCase();
+
+    if (lower === ".env" || lower.startsWith(".env.") || lower.endsWith(".env")) {
+        return "env";
+    }
+    if (lower.endsWith(".json")) {
+        return "json";
+    }
+    if (lower.endsWith(".yaml") || lower.endsWith(".yml")) {
+        return "yaml";
+    }
+    if (lower.endsWith(".toml")) {
+        return "toml";
+    }
+    throw new ConfigurationError(ERRORCODES.CONFIG_FILE_UNSUPPORTED, undefined, { file });
+}
+
+/**
+ * Parse the content of a configuration file. The root of JSON, YAML and TOML files must be an object.
+ *
+ * @param content File content
+ * @param file File name, used to detect the format and in error messages
+ * @returns Parsed values. Values of dotenv files are always strings.
+ * @throws ConfigurationError with the file and line when the content can not be parsed
+ */
+export function parseConfigFile(content: string, file: string): ConfigObject {
+    const format = detectConfigFileFormat(file);
+
+    let data: unknown;
+    switch (format) {
+        case "json":
+            data = parseJsonFile(content, file);
+            break;
+        case "yaml":
+            data = parseYamlFile(content, file);
+            break;
+        case "toml":
+            data = parseTomlFile(content, file);
+            break;
+        case "env":
+            return parseDotEnv(content, file);
+    }
+
+    // An empty YAML file is parsed to null
+    if (data === null || data === undefined) {
+        return {};
+    }
+    if (!isPlainObject(data)) {
+        throw parseError(file, 1, "The root of the file must be an object");
+    }
+    return data;
+}
+
+/**
+ * Parse a dotenv file. Supports comments, `export` prefixes and single or double quoted values.
+ * @param content
+ * @param file
+ * @returns
+ */
+export function parseDotEnv(content: string, file: string): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#")) {
+            return;
+        }
+
+        const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/.exec(line);
+        if (!match) {
+            throw parseError(file, index + 1, `Invalid line "${line}"`);
+        }
+
+        const [, name, rawValue] = match;
+        result[name] = parseDotEnvValue(rawValue, file, index + 1);
+    });
+
+    return result;
+}
+
+function parseDotEnvValue(rawValue: string, file: string, line: number): string {
+    const quote = rawValue[0];
+    if (quote === '"' || quote === "'") {
+        const end = rawValue.indexOf(quote, 1);
+        if (end === -1) {
+            throw parseError(file, line, "Unterminated quoted value");
+        }
+        const value = rawValue.slice(1, end);
+        return quote === '"' ? value.replace(/\\n/g, "\n").replace(/\\"/g, '"') : value;
+    }
+    // Unquoted values can have comments after them
+    return rawValue.replace(/\s+#.*$/, "").trim();
+}
+
+function parseJsonFile(content: string, file: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch (error) {
+        const message = (error as Error).message;
+        const position = jsonErrorPosition(content, message);
+        const line = position !== null ? content.slice(0, position).split("\n").length : 1;
+        throw parseError(file, line, message, error as Error);
+    }
+}
+
+/**
+ * Find the position of a JSON syntax error from the error message. Depending on the
+ * runtime the message contains the position, the line or an excerpt around the error.
+ */
+function jsonErrorPosition(content: string, message: string): number | null {
+    const lineMatch = /line (\d+) column (\d+)/.exec(message);
+    if (lineMatch) {
+        const lines = content.split("\n").slice(0, Number(lineMatch[1]) - 1);
+        return lines.reduce((pos, line) => pos + line.length + 1, 0);
+    }
+
+    const positionMatch = /position (\d+)/.exec(message);
+    if (positionMatch) {
+        return Number(positionMatch[1]);
+    }
+
+    if (/Unexpected end of JSON input/.test(message)) {
+        return content.trimEnd().length;
+    }
+
+    // V8 excerpt: Unexpected token 'x', ..."<up to 10 chars before>x<after>"... is not valid JSON
+    const excerptMatch = /Unexpected token '(.)', (\.\.\.)?"([\s\S]*?)"(?:\.\.\.)? is not valid JSON/.exec(message);
+    if (excerptMatch) {
+        const [, token, truncated, excerpt] = excerptMatch;
+        const start = content.indexOf(excerpt);
+        if (start !== -1) {
+            return start + (truncated ? 10 : excerpt.indexOf(token));
+        }
+    }
+    return null;
+}
+
+function parseYamlFile(content: string, file: string): unknown {
+    try {
+        return parseYaml(content);
+    } catch (error) {
+        const line = error instanceof YAMLParseError && error.linePos ? error.linePos[0].line : undefined;
+        throw parseError(file, line, (error as Error).message, error as Error);
+    }
+}
+
+function parseTomlFile(content: string, file: string): unknown {
+    try {
+        return parseToml(content);
+    } catch (error) {
+        const line = error instanceof TomlError ? error.line : undefined;
+        throw parseError(file, line, (error as Error).message.split("\n")[0], error as Error);
+    }
+}
+
+function parseError(file: string, line: number | undefined, reason: string, cause?: Error): ConfigurationError {
+    return new ConfigurationError(ERRORCODES.CONFIG_FILE_PARSE_FAILED, cause, { file, line, reason });
+}
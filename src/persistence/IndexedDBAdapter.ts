@@ -0,0 +1,78 @@
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { IPersistedUserConfig, IPersistenceAdapter } from "../interfaces/IPersistenceAdapter";
+import { parsePersistedUserConfig, toSaveError } from "./persistedData";
+
+/**
+ * Persist the user configuration to IndexedDB. All operations are asynchronous.
+ */
+export class IndexedDBAdapter implements IPersistenceAdapter {
+    private database: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param databaseName Name of the IndexedDB database
+     * @param storeName Name of the object store inside the database
+     * @param getFactory Returns the IndexedDB implementation, defaults to the global indexedDB. Resolved lazily
+     * so that the adapter can be created in environments without it.
+     */
+    constructor(
+        private readonly databaseName: string = "hcconfig",
+        private readonly storeName: string = "configuration",
+        private readonly getFactory: () => IDBFactory | undefined = () =>
+            typeof indexedDB === "undefined" ? undefined : indexedDB
+    ) {}
+
+    public async load(key: string): Promise<IPersistedUserConfig | null> {
+        const data = await this.request<unknown>("readonly", (store) => store.get(key)).catch((error) => {
+            throw new ConfigurationError(ERRORCODES.PERSISTENCE_LOAD_FAILED, error as Error);
+        });
+        if (data === undefined) {
+            return null;
+        }
+        return parsePersistedUserConfig(data);
+    }
+
+    public async save(key: string, data: IPersistedUserConfig): Promise<void> {
+        await this.request("readwrite", (store) => store.put(data, key)).catch((error) => {
+            throw toSaveError(error);
+        });
+    }
+
+    public async remove(key: string): Promise<void> {
+        await this.request("readwrite", (store) => store.delete(key));
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (this.database === null) {
+            this.database = new Promise<IDBDatabase>((resolve, reject) => {
+                const factory = this.getFactory();
+                if (!factory) {
+                    reject(new ConfigurationError(ERRORCODES.PERSISTENCE_NOT_AVAILABLE));
+                    return;
+                }
+                const req = factory.open(this.databaseName, 1);
+                req.onupgradeneeded = () => {
+                    req.result.createObjectStore(this.storeName);
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+            // Allow retrying to open the database after a failure
+            this.database.catch(() => {
+                this.database = null;
+            });
+        }
+        return this.database;
+    }
+
+    private async request<R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+        const db = await this.openDatabase();
+        return new Promise<R>((resolve, reject) => {
+            const tx = db.transaction(this.storeName, mode);
+            const req = fn(tx.objectStore(this.storeName));
+            req.onsuccess = () => resolve(req.result as R);
+            req.onerror = () => reject(req.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
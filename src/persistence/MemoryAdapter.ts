@@ -0,0 +1,33 @@
+import { IPersistedUserConfig, IPersistenceAdapter } from "../interfaces/IPersistenceAdapter";
+import { parsePersistedUserConfig } from "./persistedData";
+
+/**
+ * In-memory persistence adapter, mainly intended for tests.
+ *
+ * Data is stored serialized so that it behaves like a real storage.
+ */
+export class MemoryAdapter implements IPersistenceAdapter {
+    public readonly store: Map<string, string> = new Map();
+
+    constructor(initialData: Record<string, IPersistedUserConfig> = {}) {
+        Object.keys(initialData).forEach((key) => {
+            this.store.set(key, JSON.stringify(initialData[key]));
+        });
+    }
+
+    public load(key: string): IPersistedUserConfig | null {
+        const raw = this.store.get(key);
+        if (raw === undefined) {
+            return null;
+        }
+        return parsePersistedUserConfig(JSON.parse(raw));
+    }
+
+    public save(key: string, data: IPersistedUserConfig): void {
+        this.store.set(key, JSON.stringify(data));
+    }
+
+    public remove(key: string): void {
+        this.store.delete(key);
+    }
+}
@@ -0,0 +1,72 @@
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { IPersistedUserConfig, IPersistenceAdapter } from "../interfaces/IPersistenceAdapter";
+import { parsePersistedUserConfig, toSaveError } from "./persistedData";
+
+/**
+ * Persistence adapter for the Web Storage API (localStorage and sessionStorage).
+ *
+ * The storage is resolved lazily so that the adapter can be created in environments without it.
+ */
+export class WebStorageAdapter implements IPersistenceAdapter {
+    constructor(private readonly getStorage: () => Storage | undefined) {}
+
+    public load(key: string): IPersistedUserConfig | null {
+        const raw = this.storage().getItem(key);
+        if (raw === null) {
+            return null;
+        }
+
+        let data: unknown;
+        try {
+            data = JSON.parse(raw);
+        } catch (error) {
+            throw new ConfigurationError(ERRORCODES.PERSISTENCE_CORRUPT_DATA, error as Error);
+        }
+        return parsePersistedUserConfig(data);
+    }
+
+    public save(key: string, data: IPersistedUserConfig): void {
+        try {
+            this.storage().setItem(key, JSON.stringify(data));
+        } catch (error) {
+            throw toSaveError(error);
+        }
+    }
+
+    public remove(key: string): void {
+        this.storage().removeItem(key);
+    }
+
+    private storage(): Storage {
+        let storage: Storage | undefined;
+        try {
+            storage = this.getStorage();
+        } catch (error) {
+            // Accessing the storage can throw when it is disabled by the browser
+            throw new ConfigurationError(ERRORCODES.PERSISTENCE_NOT_AVAILABLE, error as Error);
+        }
+        if (!storage) {
+            throw new ConfigurationError(ERRORCODES.PERSISTENCE_NOT_AVAILABLE);
+        }
+        return storage;
+    }
+}
+
+/**
+ * Persist the user configuration to window.localStorage
+ */
+export class LocalStorageAdapter extends WebStorageAdapter {
+    constructor() {
+        super(() => globalThis.localStorage);
+    }
+}
+
+/**
+ * Persist the user configuration to window.sessionStorage
+ */
+export class SessionStorageAdapter extends WebStorageAdapter {
+    constructor() {
+        super(() => globalThis.sessionStorage);
+    }
+}
@@ -0,0 +1,47 @@
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { isPlainObject } from "../helpers/objectPaths";
+import { IPersistedUserConfig } from "../interfaces/IPersistenceAdapter";
+
+/**
+ * Check that the loaded data has the shape of a persisted user configuration
+ *
+ * @param data
+ * @returns The data as IPersistedUserConfig
+ * @throws ConfigurationError with PERSISTENCE_CORRUPT_DATA if the data is not valid
+ */
+export function parsePersistedUserConfig(data: unknown): IPersistedUserConfig {
+    if (!isPlainObject(data) || !isPlainObject(data.values)) {
+        throw new ConfigurationError(ERRORCODES.PERSISTENCE_CORRUPT_DATA);
+    }
+    return data as unknown as IPersistedUserConfig;
+}
+
+/**
+ * Check if the error thrown by a storage is caused by exceeding the storage quota
+ * @param error
+ * @returns
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+    // DOMExceptions are not always instances of Error, so only the shape is checked
+    if (error === null || typeof error !== "object") {
+        return false;
+    }
+    const { name, code } = error as { name?: string; code?: number };
+    return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || code === 22;
+}
+
+/**
+ * Wrap an error thrown while saving into a ConfigurationError
+ * @param error
+ * @returns
+ */
+export function toSaveError(error: unknown): ConfigurationError {
+    if (error instanceof ConfigurationError) {
+        return error;
+    }
+    if (isQuotaExceededError(error)) {
+        return new ConfigurationError(ERRORCODES.PERSISTENCE_QUOTA_EXCEEDED, error as Error);
+    }
+    return new ConfigurationError(ERRORCODES.PERSISTENCE_SAVE_FAILED, error as Error);
+}
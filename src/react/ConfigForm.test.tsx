@@ -0,0 +1,181 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from "react";
+import { afterEach, describe, expect, test } from "vitest";
+import { act, cleanup, fireEvent, render, within } from "@testing-library/react";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { ConfigMetadata } from "../interfaces/IConfigMetadata";
+import { ConfigForm } from "./ConfigForm";
+import { ConfigProvider } from "./ConfigProvider";
+
+interface TestConfig extends IConfig {
+    theme: string;
+    fontSize: number;
+    animations: boolean;
+    apiUrl: string;
+    maintenance: boolean;
+    shortcuts: string[];
+}
+
+const defaults: TestConfig = {
+    theme: "light",
+    fontSize: 14,
+    animations: true,
+    apiUrl: "https://example.com",
+    maintenance: false,
+    shortcuts: ["ctrl+s"],
+};
+
+const metadata: ConfigMetadata<TestConfig> = {
+    theme: {
+        label: "Theme",
+        category: "Appearance",
+        options: [
+            { value: "light", label: "Light" },
+            { value: "dark", label: "Dark" },
+        ],
+    },
+    fontSize: { label: "Font size", description: "Size of the text in pixels", category: "Appearance" },
+    animations: { label: "Animations", category: "Appearance" },
+    apiUrl: { label: "API address", hidden: true },
+    maintenance: { label: "Maintenance mode", levels: [CONFIGLEVEL.BACKEND] },
+};
+
+function field(container: HTMLElement, key: string): HTMLElement {
+    const element = container.querySelector<HTMLElement>(`[data-key="${key}"]`);
+    if (!element) {
+        throw new Error(`No field for ${key}`);
+    }
+    return element;
+}
+
+describe("React components: ConfigForm", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    test("Keys are grouped by category with the labels, descriptions and inputs of the metadata", () => {
+        const conf = new Configuration<TestConfig>(defaults, { metadata });
+        const { container, getByLabelText } = render(<ConfigForm config={conf} level={CONFIGLEVEL.USER} />);
+
+        const fieldsets = container.querySelectorAll("fieldset");
+        expect(Array.from(fieldsets).map((f) => f.getAttribute("data-category"))).toEqual(["", "Appearance"]);
+        expect(fieldsets[1].querySelector("legend")?.textContent).toBe("Appearance");
+        expect(
+            Array.from(fieldsets[1].querySelectorAll("[data-key]")).map((f) => f.getAttribute("data-key"))
+        ).toEqual(["theme", "fontSize", "animations"]);
+
+        // Hidden keys and keys shown on other levels only are left out
+        expect(container.querySelector('[data-key="apiUrl"]')).toBeNull();
+        expect(container.querySelector('[data-key="maintenance"]')).toBeNull();
+
+        expect((getByLabelText("Theme") as HTMLSelectElement).value).toBe("light");
+        expect(field(container, "theme").getAttribute("data-input")).toBe("select");
+        expect((getByLabelText("Font size") as HTMLInputElement).type).toBe("number");
+        expect(getByLabelText("Font size").getAttribute("aria-describedby")).not.toBeNull();
+        expect(within(field(container, "fontSize")).getByText("Size of the text in pixels")).toBeDefined();
+        expect((getByLabelText("Animations") as HTMLInputElement).checked).toBe(true);
+
+        // Keys without metadata use the key as the label and an input matching the value
+        expect(field(container, "shortcuts").getAttribute("data-input")).toBe("json");
+        expect((getByLabelText("shortcuts") as HTMLTextAreaElement).value).toBe('[\n  "ctrl+s"\n]');
+    });
+
+    test("Changes are written to the USER level", () => {
+        const conf = new Configuration<TestConfig>(defaults, { metadata });
+        const { container, getByLabelText } = render(<ConfigForm config={conf} />);
+
+        fireEvent.change(getByLabelText("Theme"), { target: { value: "dark" } });
+        fireEvent.click(getByLabelText("Animations"));
+
+        const fontSize = getByLabelText("Font size");
+        fireEvent.change(fontSize, { target: { value: "16" } });
+        expect(conf.getValue("fontSize")).toBe(14);
+        fireEvent.blur(fontSize);
+
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({
+            theme: { value: "dark", level: CONFIGLEVEL.USER, readonly: false },
+            animations: { value: false, level: CONFIGLEVEL.USER, readonly: false },
+            fontSize: { value: 16, level: CONFIGLEVEL.USER, readonly: false },
+        });
+
+        const shortcuts = getByLabelText("shortcuts");
+        fireEvent.change(shortcuts, { target: { value: "[" } });
+        fireEvent.blur(shortcuts);
+        expect(within(field(container, "shortcuts")).getByRole("alert").textContent).toBe('"[" is not valid JSON');
+        expect(conf.getValue("shortcuts")).toEqual(["ctrl+s"]);
+
+        // Reset removes the value of the level
+        fireEvent.click(within(field(container, "theme")).getByRole("button", { name: "Reset" }));
+        expect(conf.getValue("theme")).toBe("light");
+        expect((getByLabelText("Theme") as HTMLSelectElement).value).toBe("light");
+    });
+
+    test("Select inputs without options use the enum of the schema", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            metadata: { apiUrl: { label: "API address", input: "select" } },
+            schema: { apiUrl: { enum: ["https://example.com", "https://staging.example.com"] } },
+        });
+        const { getByLabelText } = render(<ConfigForm config={conf} keys={["apiUrl"]} />);
+
+        const select = getByLabelText("API address") as HTMLSelectElement;
+        expect(Array.from(select.options).map((o) => o.textContent)).toEqual([
+            "https://example.com",
+            "https://staging.example.com",
+        ]);
+
+        fireEvent.change(select, { target: { value: "https://staging.example.com" } });
+        expect(conf.getValue("apiUrl")).toBe("https://staging.example.com");
+        expect(conf.getSchema("apiUrl")?.enum).toHaveLength(2);
+    });
+
+    test("Invalid values are shown as errors and not written", () => {
+        const conf = new Configuration<TestConfig>(defaults, { metadata, schema: { fontSize: { min: 8, max: 32 } } });
+        const { container, getByLabelText } = render(<ConfigForm config={conf} />);
+
+        const fontSize = getByLabelText("Font size");
+        fireEvent.change(fontSize, { target: { value: "100" } });
+        fireEvent.keyDown(fontSize, { key: "Enter" });
+
+        expect(within(field(container, "fontSize")).getByRole("alert")).toBeDefined();
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({});
+    });
+
+    test("Read-only keys are disabled on the USER level but editable on the BACKEND level", () => {
+        const conf = new Configuration<TestConfig>(defaults, { metadata, readOnlyKeys: ["maintenance", "fontSize"] });
+
+        const user = render(<ConfigForm config={conf} level={CONFIGLEVEL.USER} />);
+        expect(user.getByLabelText("Font size")).toHaveProperty("disabled", true);
+        expect(field(user.container, "fontSize").getAttribute("data-readonly")).toBe("true");
+        cleanup();
+
+        const backend = render(<ConfigForm config={conf} level={CONFIGLEVEL.BACKEND} />);
+        fireEvent.click(backend.getByLabelText("Maintenance mode"));
+
+        expect(conf.getValue("maintenance")).toBe(true);
+        expect(conf.explain("maintenance").winningLevel).toBe(CONFIGLEVEL.BACKEND);
+    });
+
+    test("Changes made elsewhere are shown live and the instance can come from a provider", () => {
+        const conf = new Configuration<TestConfig>(defaults, { metadata });
+        const { getByLabelText } = render(
+            <ConfigProvider config={conf}>
+                <ConfigForm keys={["theme", "fontSize"]} level={CONFIGLEVEL.DYNAMIC} />
+            </ConfigProvider>
+        );
+
+        act(() => {
+            conf.setUserConfig({ theme: "dark" });
+        });
+        expect((getByLabelText("Theme") as HTMLSelectElement).value).toBe("dark");
+
+        const fontSize = getByLabelText("Font size");
+        fireEvent.change(fontSize, { target: { value: "20" } });
+        fireEvent.blur(fontSize);
+        expect(conf.explain("fontSize").winningLevel).toBe(CONFIGLEVEL.DYNAMIC);
+        expect(conf.getValue("fontSize")).toBe(20);
+    });
+});
@@ -0,0 +1,308 @@
+import React, { useCallback, useId, useState } from "react";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL, ConfigLevel } from "../enums/CONFIGLEVEL";
+import { ConfigInputKind, IConfigKeyMetadata, IConfigKeyOption } from "../interfaces/IConfigMetadata";
+import { ConfigData, ConfigPrimitive, ConfigValue, IConfig } from "../interfaces/IConfigurationObject";
+import { ConfigPath, PathValue } from "../interfaces/IConfigPaths";
+import { IConfigStoreSnapshot } from "../interfaces/IConfigStoreSnapshot";
+import { coerceValue } from "../loaders/coerceValue";
+import { useConfiguration } from "./ConfigProvider";
+import { useSnapshotSelection } from "./useSnapshotSelection";
+
+export interface IConfigFormProps<T extends IConfig> {
+    /**
+     * The edited instance, defaults to the instance of the nearest ConfigProvider
+     */
+    config?: Configuration<T>;
+
+    /**
+     * The level the values are written to, defaults to CONFIGLEVEL.USER
+     */
+    level?: ConfigLevel;
+
+    /**
+     * Keys or dot separated paths shown in the form, defaults to every key of the configuration
+     */
+    keys?: ConfigPath<T>[];
+
+    /**
+     * Class name of the root element, defaults to "hcconfig-form"
+     */
+    className?: string;
+}
+
+interface IConfigFormGroup<T extends IConfig> {
+    /**
+     * Category of the keys or null for the keys without a category
+     */
+    category: string | null;
+    keys: ConfigPath<T>[];
+}
+
+/**
+ * Settings form generated from the metadata option. Keys are grouped by their category into fieldsets and
+ * shown with the label, description and input kind of the metadata. Every change is written right away with
+ * the setter of the level, text inputs when they lose focus or Enter is pressed. Keys the level may not write,
+ * like read-only keys on the USER level, are disabled and hidden keys are left out.
+ *
+ * Usage:
+ * <ConfigForm config={appConfig} level={CONFIGLEVEL.USER} />
+ *
+ * @param props
+ * @returns
+ */
+export function ConfigForm<T extends IConfig>({
+    config,
+    level = CONFIGLEVEL.USER,
+    keys,
+    className,
+}: IConfigFormProps<T>) {
+    const configInstance = useConfiguration<T>(config);
+
+    // Re-render whenever the effective values change
+    useSnapshotSelection(configInstance, selectRevision, Object.is);
+
+    const visibleKeys = (keys ?? (configInstance.getKeys() as ConfigPath<T>[])).filter((key) =>
+        isVisible(configInstance.getMetadata(key), level)
+    );
+    const groups = visibleKeys.reduce((acc, key) => {
+        const category = configInstance.getMetadata(key)?.category ?? null;
+        const group = acc.find((g) => g.category === category);
+        if (group) {
+            group.keys.push(key);
+        } else {
+            acc.push({ category, keys: [key] });
+        }
+        return acc;
+    }, [] as IConfigFormGroup<T>[]);
+
+    // Keys without a category come first
+    groups.sort((a, b) => (a.category === null ? -1 : 0) - (b.category === null ? -1 : 0));
+
+    return (
+        <div className={className ?? "hcconfig-form"} data-level={level}>
+            {groups.map((group) => (
+                <fieldset key={group.category ?? ""} data-category={group.category ?? ""}>
+                    {group.category !== null && <legend>{group.category}</legend>}
+                    {group.keys.map((key) => (
+                        <ConfigFormField key={key} configInstance={configInstance} level={level} fieldKey={key} />
+                    ))}
+                </fieldset>
+            ))}
+        </div>
+    );
+}
+
+interface IConfigFormFieldProps<T extends IConfig> {
+    configInstance: Configuration<T>;
+    level: ConfigLevel;
+    fieldKey: ConfigPath<T>;
+}
+
+/**
+ * A single key of the form with its label, input, description and reset button
+ */
+function ConfigFormField<T extends IConfig>({ configInstance, level, fieldKey: key }: IConfigFormFieldProps<T>) {
+    const id = useId();
+    const [draft, setDraft] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const metadata = configInstance.getMetadata(key) ?? {};
+    const explanation = configInstance.explain(key);
+    const value = explanation.value;
+    const options = metadata.options ?? enumOptions(configInstance.getSchema(key)?.enum);
+    const kind = resolveInputKind(metadata, options, value);
+    const editable = configInstance.isWritable(key, level);
+    const hasLevelValue = explanation.levels.some((l) => l.level === level && l.present);
+
+    const write = useCallback(
+        (newValue: ConfigData) => {
+            const reason = configInstance.validate(key, newValue as PathValue<T, ConfigPath<T>>);
+            if (reason !== null) {
+                setError(reason);
+                return;
+            }
+            try {
+                if (writeLevel(configInstance, level, key, newValue)) {
+                    setDraft(null);
+                    setError(null);
+                } else {
+                    setError("The value was not set");
+                }
+            } catch (err) {
+                setError(err instanceof Error ? err.message : String(err));
+            }
+        },
+        [configInstance, level, key]
+    );
+
+    const applyDraft = useCallback(() => {
+        if (draft === null) {
+            return;
+        }
+        const coerced = coerceValue(draft, value ?? "");
+        if (!coerced.ok) {
+            setError(coerced.reason);
+            return;
+        }
+        write(coerced.value);
+    }, [draft, value, write]);
+
+    const reset = useCallback(() => {
+        configInstance.deleteLevelConfig(level, [key]);
+        setDraft(null);
+        setError(null);
+    }, [configInstance, level, key]);
+
+    const descriptionId = metadata.description ? `${id}-description` : undefined;
+    const common = { id, name: key, disabled: !editable, "aria-describedby": descriptionId };
+
+    let input: React.ReactNode;
+    switch (kind) {
+        case "checkbox":
+            input = (
+                <input {...common} type="checkbox" checked={value === true} onChange={(e) => write(e.target.checked)} />
+            );
+            break;
+        case "select": {
+            input = (
+                <select
+                    {...common}
+                    value={String(value)}
+                    onChange={(e) => {
+                        const option = options?.find((o) => String(o.value) === e.target.value);
+                        if (option) {
+                            write(option.value);
+                        }
+                    }}
+                >
+                    {(options ?? []).map((option) => (
+                        <option key={String(option.value)} value={String(option.value)}>
+                            {optionLabel(option)}
+                        </option>
+                    ))}
+                </select>
+            );
+            break;
+        }
+        case "textarea":
+        case "json":
+            input = (
+                <textarea
+                    {...common}
+                    value={draft ?? formatEditorValue(value, kind === "json")}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={applyDraft}
+                />
+            );
+            break;
+        default:
+            input = (
+                <input
+                    {...common}
+                    type={kind}
+                    value={draft ?? formatEditorValue(value, false)}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={applyDraft}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                            applyDraft();
+                        }
+                    }}
+                />
+            );
+    }
+
+    return (
+        <div className="hcconfig-form-field" data-key={key} data-input={kind} data-readonly={!editable}>
+            <label htmlFor={id}>{metadata.label ?? key}</label>
+            {input}
+            {descriptionId && <p id={descriptionId}>{metadata.description}</p>}
+            <button type="button" disabled={!editable || !hasLevelValue} onClick={reset}>
+                Reset
+            </button>
+            {error !== null && <span role="alert">{error}</span>}
+        </div>
+    );
+}
+
+function selectRevision<T extends IConfig>(snapshot: IConfigStoreSnapshot<T>): number {
+    return snapshot.revision;
+}
+
+function isVisible(metadata: IConfigKeyMetadata | undefined, level: ConfigLevel): boolean {
+    return !metadata?.hidden && (metadata?.levels === undefined || metadata.levels.includes(level));
+}
+
+/**
+ * The input kind of the metadata or one matching the options and the type of the value
+ */
+function resolveInputKind(
+    metadata: IConfigKeyMetadata,
+    options: IConfigKeyOption[] | undefined,
+    value: ConfigData | undefined
+): ConfigInputKind {
+    if (metadata.input) {
+        return metadata.input;
+    }
+    if (options) {
+        return "select";
+    }
+    switch (typeof value) {
+        case "boolean":
+            return "checkbox";
+        case "number":
+            return "number";
+        case "object":
+            return "json";
+        default:
+            return "text";
+    }
+}
+
+/**
+ * Options of a select input from the enum of the schema. Only primitive values can be selected.
+ */
+function enumOptions(values: ConfigValue[] | undefined): IConfigKeyOption[] | undefined {
+    const primitives = values?.filter((v): v is ConfigPrimitive => ["string", "number", "boolean"].includes(typeof v));
+    return primitives && primitives.length > 0 ? primitives.map((v) => ({ value: v })) : undefined;
+}
+
+function optionLabel(option: IConfigKeyOption): string {
+    return option.label ?? String(option.value);
+}
+
+/**
+ * Value shown in the text inputs in the format coerceValue() parses
+ */
+function formatEditorValue(value: ConfigData | undefined, pretty: boolean): string {
+    if (value === undefined) {
+        return "";
+    }
+    return typeof value === "string" ? value : JSON.stringify(value, null, pretty ? 2 : undefined);
+}
+
+/**
+ * Write a single value with the setter of the level
+ * @returns false if the write was blocked or dropped as invalid
+ */
+function writeLevel<T extends IConfig>(
+    configInstance: Configuration<T>,
+    level: ConfigLevel,
+    key: ConfigPath<T>,
+    value: ConfigData
+): boolean {
+    const config = { [key]: value } as Partial<T>;
+    switch (level) {
+        case CONFIGLEVEL.DYNAMIC:
+            return configInstance.setConfig(key, value as PathValue<T, ConfigPath<T>>);
+        case CONFIGLEVEL.USER:
+            return configInstance.setUserConfig(config);
+        case CONFIGLEVEL.BACKEND:
+            return configInstance.setBackendConfig(config);
+        case CONFIGLEVEL.ENVIRONMENT:
+            return configInstance.setEnvironmentConfig(config);
+        default:
+            return configInstance.setLevelConfig(level, config);
+    }
+}
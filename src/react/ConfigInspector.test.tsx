@@ -0,0 +1,124 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React from "react";
+import { afterEach, describe, expect, test } from "vitest";
+import { act, cleanup, fireEvent, render, within } from "@testing-library/react";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { ConfigInspector } from "./ConfigInspector";
+import { ConfigProvider } from "./ConfigProvider";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    locked: boolean;
+    token: string;
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10, locked: false, token: "secret" };
+
+function row(container: HTMLElement, key: string): HTMLElement {
+    const element = container.querySelector<HTMLElement>(`tr[data-key="${key}"]`);
+    if (!element) {
+        throw new Error(`No row for ${key}`);
+    }
+    return element;
+}
+
+function cell(container: HTMLElement, key: string, selector: string): string | null {
+    return row(container, key).querySelector(selector)?.textContent ?? null;
+}
+
+describe("React components: ConfigInspector", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    test("Every key is listed with the value on each level, the winning level and the read-only state", () => {
+        const conf = new Configuration<TestConfig>(defaults, { readOnlyKeys: ["locked"], secretKeys: ["token"] });
+        conf.setBackendConfig({ bar: 20 });
+
+        const { container } = render(<ConfigInspector config={conf} />);
+
+        expect(container.querySelectorAll("tbody tr")).toHaveLength(4);
+        expect(cell(container, "bar", `td[data-level="${CONFIGLEVEL.DEFAULT}"]`)).toBe("10");
+        expect(cell(container, "bar", `td[data-level="${CONFIGLEVEL.BACKEND}"]`)).toBe("20");
+        expect(cell(container, "bar", `td[data-level="${CONFIGLEVEL.USER}"]`)).toBe("");
+        expect(cell(container, "bar", 'td[data-column="winning-level"]')).toBe(CONFIGLEVEL.BACKEND);
+        expect(cell(container, "foo", `td[data-level="${CONFIGLEVEL.DEFAULT}"]`)).toBe('"defaultA"');
+        expect(cell(container, "token", `td[data-level="${CONFIGLEVEL.DEFAULT}"]`)).toBe('"***"');
+
+        expect(cell(container, "locked", 'td[data-column="readonly"]')).toBe("yes");
+        expect(within(row(container, "locked")).getByRole("button", { name: "Set" })).toHaveProperty("disabled", true);
+        expect(cell(container, "foo", 'td[data-column="readonly"]')).toBe("no");
+    });
+
+    test("The search filter limits the listed keys", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const { container, getByLabelText } = render(<ConfigInspector config={conf} />);
+
+        fireEvent.change(getByLabelText("Filter keys"), { target: { value: "BA" } });
+
+        expect(container.querySelectorAll("tbody tr")).toHaveLength(1);
+        expect(row(container, "bar")).toBeDefined();
+    });
+
+    test("Dynamic values are set and cleared inline", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const { container } = render(<ConfigInspector config={conf} />);
+        const barRow = within(row(container, "bar"));
+
+        expect(barRow.getByRole("button", { name: "Clear" })).toHaveProperty("disabled", true);
+
+        fireEvent.change(barRow.getByLabelText("Value of bar"), { target: { value: "42" } });
+        fireEvent.click(barRow.getByRole("button", { name: "Set" }));
+
+        expect(conf.getValue("bar")).toBe(42);
+        expect(cell(container, "bar", `td[data-level="${CONFIGLEVEL.DYNAMIC}"]`)).toBe("42");
+        expect(cell(container, "bar", 'td[data-column="winning-level"]')).toBe(CONFIGLEVEL.DYNAMIC);
+
+        fireEvent.change(barRow.getByLabelText("Value of bar"), { target: { value: "many" } });
+        fireEvent.click(barRow.getByRole("button", { name: "Set" }));
+        expect(barRow.getByRole("alert").textContent).toBe('"many" is not a number');
+        expect(conf.getValue("bar")).toBe(42);
+
+        fireEvent.click(barRow.getByRole("button", { name: "Clear" }));
+        expect(conf.getValue("bar")).toBe(10);
+        expect(cell(container, "bar", 'td[data-column="winning-level"]')).toBe(CONFIGLEVEL.DEFAULT);
+    });
+
+    test("Secret keys are not prefilled and Set without a change writes nothing", () => {
+        const conf = new Configuration<TestConfig>(defaults, { secretKeys: ["token"] });
+        const { container } = render(<ConfigInspector config={conf} />);
+        const tokenRow = within(row(container, "token"));
+
+        expect(tokenRow.getByLabelText<HTMLInputElement>("Value of token").value).toBe("");
+        fireEvent.click(tokenRow.getByRole("button", { name: "Set" }));
+        fireEvent.click(within(row(container, "foo")).getByRole("button", { name: "Set" }));
+
+        expect(conf.getSecret("token")).toBe("secret");
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.DYNAMIC)).toEqual({});
+
+        fireEvent.change(tokenRow.getByLabelText("Value of token"), { target: { value: "rotated" } });
+        fireEvent.click(tokenRow.getByRole("button", { name: "Set" }));
+        expect(conf.getSecret("token")).toBe("rotated");
+    });
+
+    test("Changes made elsewhere are shown live and the instance can come from a provider", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const { container } = render(
+            <ConfigProvider config={conf}>
+                <ConfigInspector />
+            </ConfigProvider>
+        );
+
+        act(() => {
+            conf.setUserConfig({ foo: "userA" });
+        });
+
+        expect(cell(container, "foo", `td[data-level="${CONFIGLEVEL.USER}"]`)).toBe('"userA"');
+        expect(within(row(container, "foo")).getByLabelText<HTMLInputElement>("Value of foo").value).toBe("userA");
+    });
+});
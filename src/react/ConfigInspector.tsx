@@ -0,0 +1,184 @@
+import React, { FormEvent, useCallback, useState } from "react";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ConfigData, IConfig } from "../interfaces/IConfigurationObject";
+import { ConfigPath, PathValue } from "../interfaces/IConfigPaths";
+import { IConfigExplanation } from "../interfaces/IConfigExplanation";
+import { IConfigStoreSnapshot } from "../interfaces/IConfigStoreSnapshot";
+import { coerceValue } from "../loaders/coerceValue";
+import { useConfiguration } from "./ConfigProvider";
+import { useSnapshotSelection } from "./useSnapshotSelection";
+
+export interface IConfigInspectorProps<T extends IConfig> {
+    /**
+     * The inspected instance, defaults to the instance of the nearest ConfigProvider
+     */
+    config?: Configuration<T>;
+
+    /**
+     * Class name of the root element, defaults to "hcconfig-inspector"
+     */
+    className?: string;
+}
+
+/**
+ * Development panel listing every key with its value on each level, the winning level and the read-only state.
+ * DYNAMIC values can be set and cleared inline, the editors of secret keys start empty. The panel is updated live
+ * and has no styles of its own, the elements can be styled through the class names and data attributes.
+ *
+ * Usage:
+ * {import.meta.env.DEV && <ConfigInspector config={appConfig} />}
+ *
+ * @param props
+ * @returns
+ */
+export function ConfigInspector<T extends IConfig>({ config, className }: IConfigInspectorProps<T>) {
+    const configInstance = useConfiguration<T>(config);
+    const [filter, setFilter] = useState("");
+
+    // Re-render whenever the effective values change
+    useSnapshotSelection(configInstance, selectRevision, Object.is);
+
+    const search = filter.trim().toLowerCase();
+    const allExplanations = configInstance.explainAll();
+    const explanations = allExplanations.filter((e) => String(e.key).toLowerCase().includes(search));
+    const levels = allExplanations.length > 0 ? allExplanations[0].levels.map((l) => l.level) : [];
+
+    return (
+        <div className={className ?? "hcconfig-inspector"}>
+            <input
+                type="search"
+                className="hcconfig-inspector-filter"
+                aria-label="Filter keys"
+                placeholder="Filter keys"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+            />
+            <table>
+                <thead>
+                    <tr>
+                        <th>Key</th>
+                        {levels.map((level) => (
+                            <th key={level}>{level}</th>
+                        ))}
+                        <th>Winning level</th>
+                        <th>Read-only</th>
+                        <th>Dynamic value</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {explanations.map((explanation) => (
+                        <InspectorRow
+                            key={String(explanation.key)}
+                            configInstance={configInstance}
+                            explanation={explanation}
+                        />
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+interface IInspectorRowProps<T extends IConfig> {
+    configInstance: Configuration<T>;
+    explanation: IConfigExplanation<T>;
+}
+
+/**
+ * A single key of the inspector with the editor of the DYNAMIC value
+ */
+function InspectorRow<T extends IConfig>({ configInstance, explanation }: IInspectorRowProps<T>) {
+    const key = explanation.key as ConfigPath<T>;
+    const [draft, setDraft] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const editable = explanation.writableLevels.includes(CONFIGLEVEL.DYNAMIC);
+    const hasDynamicValue = explanation.levels.some((l) => l.level === CONFIGLEVEL.DYNAMIC && l.present);
+
+    // The editor of secret keys starts empty, the redacted value must not be written back
+    const editorValue = explanation.secret ? "" : formatEditorValue(explanation.value);
+
+    const apply = useCallback(
+        (e: FormEvent) => {
+            e.preventDefault();
+            if (draft === null) {
+                return;
+            }
+            const coerced = coerceValue(draft, explanation.value ?? "");
+            if (!coerced.ok) {
+                setError(coerced.reason);
+                return;
+            }
+            try {
+                if (configInstance.setConfig(key, coerced.value as PathValue<T, ConfigPath<T>>)) {
+                    setDraft(null);
+                    setError(null);
+                } else {
+                    setError("The value was not set");
+                }
+            } catch (err) {
+                setError(err instanceof Error ? err.message : String(err));
+            }
+        },
+        [configInstance, key, draft, explanation.value]
+    );
+
+    const clear = useCallback(() => {
+        configInstance.deleteConfig(key);
+        setDraft(null);
+        setError(null);
+    }, [configInstance, key]);
+
+    return (
+        <tr data-key={key} data-readonly={explanation.readonly}>
+            <th scope="row">{key}</th>
+            {explanation.levels.map((levelValue) => (
+                <td
+                    key={levelValue.level}
+                    data-level={levelValue.level}
+                    data-winning={levelValue.level === explanation.winningLevel}
+                >
+                    {levelValue.present ? formatValue(levelValue.value) : ""}
+                </td>
+            ))}
+            <td data-column="winning-level">{explanation.winningLevel ?? ""}</td>
+            <td data-column="readonly">{explanation.readonly ? "yes" : "no"}</td>
+            <td data-column="editor">
+                <form onSubmit={apply}>
+                    <input
+                        aria-label={`Value of ${key}`}
+                        value={draft ?? editorValue}
+                        disabled={!editable}
+                        onChange={(e) => setDraft(e.target.value)}
+                    />
+                    <button type="submit" disabled={!editable}>
+                        Set
+                    </button>
+                    <button type="button" disabled={!editable || !hasDynamicValue} onClick={clear}>
+                        Clear
+                    </button>
+                </form>
+                {error !== null && <span role="alert">{error}</span>}
+            </td>
+        </tr>
+    );
+}
+
+function selectRevision<T extends IConfig>(snapshot: IConfigStoreSnapshot<T>): number {
+    return snapshot.revision;
+}
+
+/**
+ * Value shown in the level columns. Strings are quoted so that empty strings can be told apart from missing values.
+ */
+function formatValue(value: ConfigData | undefined): string {
+    return value === undefined ? "" : JSON.stringify(value);
+}
+
+/**
+ * Value shown in the editor in the format coerceValue() parses
+ */
+function formatEditorValue(value: ConfigData | undefined): string {
+    return typeof value === "string" ? value : formatValue(value);
+}
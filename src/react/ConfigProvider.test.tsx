@@ -0,0 +1,81 @@
+/**
+ * @vitest-environment jsdom
+ */
+import React, { ReactNode } from "react";
+import { describe, expect, test } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { Configuration } from "../Configuration.class";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { ConfigProvider, useConfiguration } from "./ConfigProvider";
+import { useConfig } from "./useConfig";
+import { useConfigs } from "./useConfigs";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+}
+
+function providerWith(conf: Configuration<TestConfig>) {
+    return ({ children }: { children: ReactNode }) => <ConfigProvider config={conf}>{children}</ConfigProvider>;
+}
+
+describe("React hooks: ConfigProvider", () => {
+    test("Hooks without an instance read from the provider", () => {
+        const conf = new Configuration<TestConfig>({ foo: "value", bar: 10 });
+        const wrapper = providerWith(conf);
+
+        const { result: single } = renderHook(() => useConfig<TestConfig, "foo">("foo"), { wrapper });
+        const { result: many } = renderHook(() => useConfigs<TestConfig>(["foo", "bar"]), { wrapper });
+        const { result: all } = renderHook(() => useConfigs<TestConfig>(), { wrapper });
+
+        expect(single.current[0]).toBe("value");
+        expect(many.current).toEqual({ foo: "value", bar: 10 });
+        expect(all.current).toEqual({ foo: "value", bar: 10 });
+
+        act(() => {
+            single.current[1]("newValue");
+        });
+
+        expect(single.current[0]).toBe("newValue");
+        expect(conf.getValue("foo")).toBe("newValue");
+
+        act(() => {
+            single.current[2]();
+        });
+
+        expect(single.current[0]).toBe("value");
+    });
+
+    test("The nearest provider wins", () => {
+        const outer = new Configuration<TestConfig>({ foo: "outer", bar: 1 });
+        const inner = new Configuration<TestConfig>({ foo: "inner", bar: 2 });
+        const wrapper = ({ children }: { children: ReactNode }) => (
+            <ConfigProvider config={outer}>
+                <ConfigProvider config={inner}>{children}</ConfigProvider>
+            </ConfigProvider>
+        );
+
+        const { result } = renderHook(() => useConfig<TestConfig, "foo">("foo"), { wrapper });
+        expect(result.current[0]).toBe("inner");
+
+        const { result: instance } = renderHook(() => useConfiguration<TestConfig>(), { wrapper });
+        expect(instance.current).toBe(inner);
+    });
+
+    test("An instance passed to the hook overrides the provider", () => {
+        const provided = new Configuration<TestConfig>({ foo: "provided", bar: 1 });
+        const explicit = new Configuration<TestConfig>({ foo: "explicit", bar: 2 });
+
+        const { result } = renderHook(() => useConfig(explicit, "foo"), { wrapper: providerWith(provided) });
+        expect(result.current[0]).toBe("explicit");
+    });
+
+    test("Hooks without an instance throw when no provider is mounted", () => {
+        expect(() => renderHook(() => useConfig<TestConfig, "foo">("foo"))).toThrowError(
+            ERRORCODES.NO_CONFIG_PROVIDER
+        );
+        expect(() => renderHook(() => useConfigs<TestConfig>(["foo"]))).toThrowError(ERRORCODES.NO_CONFIG_PROVIDER);
+        expect(() => renderHook(() => useConfiguration())).toThrowError(ERRORCODES.NO_CONFIG_PROVIDER);
+    });
+});
@@ -0,0 +1,49 @@
+import React, { createContext, ReactNode, useContext } from "react";
+import { Configuration } from "../Configuration.class";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+
+/**
+ * Context holding the Configuration instance of the nearest ConfigProvider
+ */
+export const ConfigContext = createContext<Configuration<any> | null>(null);
+
+export interface IConfigProviderProps<T extends IConfig> {
+    /**
+     * The instance the hooks used without an instance read from
+     */
+    config: Configuration<T>;
+    children?: ReactNode;
+}
+
+/**
+ * Provide a Configuration instance to the hooks, so that components do not need to import the instance.
+ *
+ * Usage:
+ * <ConfigProvider config={appConfig}><App /></ConfigProvider>
+ *
+ * Providers can be nested, the hooks use the instance of the nearest provider.
+ *
+ * @param props
+ * @returns
+ */
+export function ConfigProvider<T extends IConfig>({ config, children }: IConfigProviderProps<T>) {
+    return <ConfigContext.Provider value={config}>{children}</ConfigContext.Provider>;
+}
+
+/**
+ * Get the Configuration instance of the nearest ConfigProvider.
+ *
+ * @param configInstance An instance to use instead of the provided one
+ * @returns
+ * @throws ConfigurationError if no instance is given and no ConfigProvider is mounted
+ */
+export function useConfiguration<T extends IConfig>(configInstance?: Configuration<T>): Configuration<T> {
+    const provided = useContext(ConfigContext) as Configuration<T> | null;
+    const instance = configInstance ?? provided;
+    if (!instance) {
+        throw new ConfigurationError(ERRORCODES.NO_CONFIG_PROVIDER);
+    }
+    return instance;
+}
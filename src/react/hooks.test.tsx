@@ -76,4 +76,34 @@ describe("React Hooks combined", () => {
             ok: true,
         });
     });
+
+    test("Computed keys work with useConfig and useConfigs", () => {
+        interface ApiConfig extends IConfig {
+            apiHost: string;
+            apiVersion: number;
+            apiUrl: string;
+        }
+
+        const conf = new Configuration<ApiConfig>({ apiHost: "https://api.example.com", apiVersion: 1 } as ApiConfig, {
+            computed: {
+                apiUrl: {
+                    dependencies: ["apiHost", "apiVersion"],
+                    compute: ({ apiHost, apiVersion }) => `${apiHost}/v${apiVersion}`,
+                },
+            },
+        });
+
+        const { result: resUrl } = renderHook(() => useConfig<ApiConfig>(conf, "apiUrl"));
+        const { result: configs } = renderHook(() => useConfigs<ApiConfig>(conf, ["apiVersion", "apiUrl"]));
+
+        expect(resUrl.current[0]).toBe("https://api.example.com/v1");
+        expect(configs.current).toEqual({ apiVersion: 1, apiUrl: "https://api.example.com/v1" });
+
+        act(() => {
+            conf.setConfig("apiVersion", 2);
+        });
+
+        expect(resUrl.current[0]).toBe("https://api.example.com/v2");
+        expect(configs.current).toEqual({ apiVersion: 2, apiUrl: "https://api.example.com/v2" });
+    });
 });
@@ -1,7 +1,7 @@
 /**
  * @vitest-environment jsdom
  */
-import { describe, expect, test } from "vitest";
+import { describe, expect, expectTypeOf, test } from "vitest";
 import { Configuration } from "../Configuration.class";
 import { IConfig } from "../interfaces/IConfigurationObject";
 
@@ -46,7 +46,8 @@ describe("React hooks: useConfig", () => {
         });
 
         expect(() => {
-            renderHook(() => useConfig<TestConfig>(conf, "baz" as keyof TestConfig));
+            // @ts-expect-error unknown keys are rejected by the compiler too
+            renderHook(() => useConfig<TestConfig>(conf, "baz"));
         }).toThrowError(ERRORCODES.UNKNOWN_CONFIG_KEY);
     });
 
@@ -121,7 +122,12 @@ describe("React hooks: useConfig", () => {
 
         expect(resultFoo.current[0]).toBe("value");
         expect(conf.getValue("foo")).toBe("value");
-        expect(conf.getConfig("foo")).toEqual({ value: "value", level: CONFIGLEVEL.DEFAULT, readonly: false });
+        expect(conf.getConfig("foo")).toEqual({
+            value: "value",
+            level: CONFIGLEVEL.DEFAULT,
+            readonly: false,
+            writableLevels: [CONFIGLEVEL.ENVIRONMENT, CONFIGLEVEL.BACKEND, CONFIGLEVEL.USER, CONFIGLEVEL.DYNAMIC],
+        });
 
         act(() => {
             const setFoo = resultFoo.current[1];
@@ -131,7 +137,12 @@ describe("React hooks: useConfig", () => {
         expect(resultFoo.current[0]).toBe("updatedValue");
 
         expect(conf.getValue("foo")).toBe("updatedValue");
-        expect(conf.getConfig("foo")).toEqual({ value: "updatedValue", level: CONFIGLEVEL.DYNAMIC, readonly: false });
+        expect(conf.getConfig("foo")).toEqual({
+            value: "updatedValue",
+            level: CONFIGLEVEL.DYNAMIC,
+            readonly: false,
+            writableLevels: [CONFIGLEVEL.DYNAMIC],
+        });
     });
 
     test("Delete dynamic configuration via delete function provided by useConfig", () => {
@@ -145,7 +156,12 @@ describe("React hooks: useConfig", () => {
 
         expect(resultFoo.current[0]).toBe("value");
         expect(conf.getValue("foo")).toBe("value");
-        expect(conf.getConfig("foo")).toEqual({ value: "value", level: CONFIGLEVEL.DEFAULT, readonly: false });
+        expect(conf.getConfig("foo")).toEqual({
+            value: "value",
+            level: CONFIGLEVEL.DEFAULT,
+            readonly: false,
+            writableLevels: [CONFIGLEVEL.ENVIRONMENT, CONFIGLEVEL.BACKEND, CONFIGLEVEL.USER, CONFIGLEVEL.DYNAMIC],
+        });
 
         act(() => {
             const setFoo = resultFoo.current[1];
@@ -154,7 +170,12 @@ describe("React hooks: useConfig", () => {
 
         expect(resultFoo.current[0]).toBe("updatedValue");
         expect(conf.getValue("foo")).toBe("updatedValue");
-        expect(conf.getConfig("foo")).toEqual({ value: "updatedValue", level: CONFIGLEVEL.DYNAMIC, readonly: false });
+        expect(conf.getConfig("foo")).toEqual({
+            value: "updatedValue",
+            level: CONFIGLEVEL.DYNAMIC,
+            readonly: false,
+            writableLevels: [CONFIGLEVEL.DYNAMIC],
+        });
 
         act(() => {
             const clearFoo = resultFoo.current[2];
@@ -163,6 +184,42 @@ describe("React hooks: useConfig", () => {
 
         expect(resultFoo.current[0]).toBe("value");
         expect(conf.getValue("foo")).toBe("value");
-        expect(conf.getConfig("foo")).toEqual({ value: "value", level: CONFIGLEVEL.DEFAULT, readonly: false });
+        expect(conf.getConfig("foo")).toEqual({
+            value: "value",
+            level: CONFIGLEVEL.DEFAULT,
+            readonly: false,
+            writableLevels: [CONFIGLEVEL.ENVIRONMENT, CONFIGLEVEL.BACKEND, CONFIGLEVEL.USER, CONFIGLEVEL.DYNAMIC],
+        });
+    });
+
+    test("useConfig returns secret values redacted", () => {
+        const conf = new Configuration<TestConfig>({ foo: "value", bar: 10, ok: false }, { secretKeys: ["foo"] });
+
+        const { result } = renderHook(() => useConfig<TestConfig>(conf, "foo"));
+        expect(result.current[0]).toBe("***");
+
+        act(() => {
+            result.current[1]("newSecret");
+        });
+
+        expect(result.current[0]).toBe("***");
+        expect(conf.getSecret("foo")).toBe("newSecret");
+    });
+
+    test("useConfig infers the value and the setter from the key", () => {
+        const conf = new Configuration<TestConfig>({ foo: "value", bar: 10, ok: false });
+
+        const { result } = renderHook(() => useConfig(conf, "bar"));
+        expectTypeOf(result.current[0]).toEqualTypeOf<number | null>();
+        expectTypeOf(result.current[1]).parameter(0).toEqualTypeOf<number>();
+
+        // @ts-expect-error the value must be a number
+        expectTypeOf(result.current[1]).toBeCallableWith("20");
+
+        act(() => {
+            result.current[1](20);
+        });
+
+        expect(result.current[0]).toBe(20);
     });
 });
@@ -1,58 +1,69 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useMemo } from "react";
 import { Configuration } from "../Configuration.class"; // adjust import as needed
-import { ConfigValue, IConfig, IConfigurationObject } from "../interfaces/IConfigurationObject";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IConfigStoreSnapshot } from "../interfaces/IConfigStoreSnapshot";
+import { ConfigPath, PathValue } from "../interfaces/IConfigPaths";
 import { ConfigurationError } from "../ConfigurationError";
 import { ERRORCODES } from "../enums/ERRORCODES";
+import { useConfiguration } from "./ConfigProvider";
+import { isEqualSelection, useSnapshotSelection } from "./useSnapshotSelection";
+
+/**
+ * Value, setter and clear function returned by useConfig()
+ */
+export type UseConfigResult<T extends IConfig, K extends string> = [
+    PathValue<T, K> | null,
+    (val: PathValue<T, K>) => void,
+    () => void,
+];
 
 /**
  * Custom hook to access and manipulate a single configuration value from a Configuration instance.
  *
  * Usage:
  * const [value, setValue, clearValue] = useConfig<IMyConfig>(configInstance, "targetKey");
+ * const [value, setValue, clearValue] = useConfig<IMyConfig, "targetKey">("targetKey"); // Instance from ConfigProvider
  *
- * The value is automatically updated when the configuration changes and is returned as a primitive type (string, number, boolean, or null).
+ * The value is automatically updated when the configuration changes and is returned as raw data (string, number, boolean,
+ * array, object or null) without the IConfigurationObject wrapper. The key can also be a dot separated path to a nested value.
+ * The value and the setter are typed by the key, leave out the type arguments to let them be inferred.
  *
- * @param configInstance Configuration class instance with the desired configuration and default values at the minimum
+ * @param configInstance Configuration class instance with the desired configuration and default values at the minimum.
+ * Can be left out to use the instance of the nearest ConfigProvider.
  * @param key The target configuration key we are interested in
  * @returns A tuple containing the current value, a setter function, and a clear function
  */
-export function useConfig<T extends IConfig>(
+export function useConfig<T extends IConfig, K extends ConfigPath<T> = ConfigPath<T>>(key: K): UseConfigResult<T, K>;
+export function useConfig<T extends IConfig, K extends ConfigPath<T> = ConfigPath<T>>(
     configInstance: Configuration<T>,
-    key: keyof T
-): [string | number | boolean | null, (val: ConfigValue) => void, () => void] {
-    const [value, setValue] = useState<string | number | boolean | null>(() => {
+    key: K
+): UseConfigResult<T, K>;
+export function useConfig<T extends IConfig, K extends ConfigPath<T>>(
+    instanceOrKey: Configuration<T> | K,
+    targetKey?: K
+): UseConfigResult<T, K> {
+    const configInstance = useConfiguration<T>(instanceOrKey instanceof Configuration ? instanceOrKey : undefined);
+    const key = instanceOrKey instanceof Configuration ? (targetKey as K) : instanceOrKey;
+
+    // Unknown keys are reported when the hook is mounted or the key changes
+    useMemo(() => {
         const val = configInstance.getValue(key);
-        if (typeof val === "object" && val.value !== undefined) {
-            const oval = val as IConfigurationObject;
-            return oval.value as string | number | boolean | null;
-        }
         if (val === undefined) {
             throw new ConfigurationError(ERRORCODES.UNKNOWN_CONFIG_KEY);
         }
-        if (typeof val !== "string" && typeof val !== "number" && typeof val !== "boolean" && val !== null) {
+        if (typeof val !== "string" && typeof val !== "number" && typeof val !== "boolean" && typeof val !== "object") {
             throw new ConfigurationError(ERRORCODES.INVALID_CONFIG_TYPE);
         }
-        return val as string | number | boolean | null;
-    });
-
-    useEffect(() => {
-        const unsubscribe = configInstance.subscribe([key], (changed) => {
-            const val = changed[key] as ConfigValue;
-            if (val !== undefined) {
-                if (typeof val === "object" && val !== null) {
-                    const oval = val as IConfigurationObject;
-                    setValue(oval.value as string | number | boolean | null);
-                    return;
-                } else {
-                    setValue(val as string | number | boolean | null);
-                }
-            }
-        });
-        return unsubscribe;
     }, [configInstance, key]);
 
+    const select = useCallback(
+        (snapshot: IConfigStoreSnapshot<T>) => (snapshot.getValue(key) ?? null) as PathValue<T, K> | null,
+        [key]
+    );
+    const value = useSnapshotSelection(configInstance, select, isEqualSelection);
+
     const setConfigCallback = useCallback(
-        (val: ConfigValue) => {
+        (val: PathValue<T, K>) => {
             configInstance.setConfig(key, val);
         },
         [configInstance, key]
@@ -0,0 +1,123 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { useLayoutEffect } from "react";
+import { describe, expect, test } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { Configuration } from "../Configuration.class";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { useConfig } from "./useConfig";
+import { useConfigs } from "./useConfigs";
+import { useConfigSelector } from "./useConfigSelector";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    http: { timeoutMs: number; retries: number };
+}
+
+const defaults: TestConfig = { foo: "value", bar: 10, http: { timeoutMs: 500, retries: 3 } };
+
+describe("React hooks: external store", () => {
+    test("Components re-render only when their keys change", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        let singleRenders = 0;
+        let manyRenders = 0;
+
+        const { result: single } = renderHook(() => {
+            singleRenders++;
+            return useConfig(conf, "http.timeoutMs");
+        });
+        const { result: many } = renderHook(() => {
+            manyRenders++;
+            return useConfigs(conf, ["foo", "http"]);
+        });
+        expect(singleRenders).toBe(1);
+        expect(manyRenders).toBe(1);
+
+        act(() => {
+            conf.setConfig("bar", 20);
+            conf.setConfig("http.retries", 5);
+        });
+
+        expect(singleRenders).toBe(1);
+        expect(manyRenders).toBe(2);
+        expect(many.current).toEqual({ foo: "value", http: { timeoutMs: 500, retries: 5 } });
+
+        const previous = many.current;
+        act(() => {
+            conf.setConfig("http.timeoutMs", 1000);
+        });
+
+        expect(singleRenders).toBe(2);
+        expect(single.current[0]).toBe(1000);
+        expect(many.current).not.toBe(previous);
+        expect(previous.http).toEqual({ timeoutMs: 500, retries: 5 });
+    });
+
+    test("Changes between the render and the subscription are not missed", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        const { result } = renderHook(() => {
+            const [foo] = useConfig(conf, "foo");
+            const { bar } = useConfigs(conf, ["bar"]);
+            useLayoutEffect(() => {
+                conf.batch(() => {
+                    conf.setConfig("foo", "early");
+                    conf.setConfig("bar", 99);
+                });
+            }, []);
+            return { foo, bar };
+        });
+
+        expect(result.current).toEqual({ foo: "early", bar: 99 });
+    });
+
+    test("useConfigSelector re-renders only when the selected value changes", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        let renders = 0;
+
+        const { result } = renderHook(() => {
+            renders++;
+            return useConfigSelector(conf, (values) => values.bar > 15);
+        });
+        expect(result.current).toBe(false);
+
+        act(() => {
+            conf.setConfig("foo", "other");
+            conf.setConfig("bar", 12);
+        });
+        expect(renders).toBe(1);
+
+        act(() => {
+            conf.setConfig("bar", 20);
+        });
+        expect(result.current).toBe(true);
+        expect(renders).toBe(2);
+    });
+
+    test("useConfigSelector uses the given comparison", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        let renders = 0;
+
+        const { result } = renderHook(() => {
+            renders++;
+            return useConfigSelector(
+                conf,
+                (values) => ({ summary: `${values.foo}:${values.bar}` }),
+                (a, b) => a.summary === b.summary
+            );
+        });
+
+        act(() => {
+            conf.setConfig("http.retries", 1);
+        });
+        expect(renders).toBe(1);
+
+        act(() => {
+            conf.setConfig("bar", 11);
+        });
+        expect(result.current).toEqual({ summary: "value:11" });
+        expect(renders).toBe(2);
+    });
+});
@@ -0,0 +1,42 @@
+import { useCallback } from "react";
+import { Configuration } from "../Configuration.class";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IConfigStoreSnapshot } from "../interfaces/IConfigStoreSnapshot";
+import { useConfiguration } from "./ConfigProvider";
+import { useSnapshotSelection } from "./useSnapshotSelection";
+
+/**
+ * Custom hook to derive a value from the configuration. The component re-renders only when the selected value changes.
+ *
+ * Usage:
+ * const isDark = useConfigSelector(configInstance, (values) => values.theme === "dark");
+ * const isDark = useConfigSelector<IMyConfig, boolean>((values) => values.theme === "dark"); // Instance from ConfigProvider
+ *
+ * @param configInstance Configuration class instance, can be left out to use the instance of the nearest ConfigProvider
+ * @param selector Function selecting the value from the raw effective values
+ * @param isEqual Comparison of the previous and the new selection, defaults to Object.is
+ * @returns The selected value
+ */
+export function useConfigSelector<T extends IConfig, R>(
+    selector: (values: Readonly<T>) => R,
+    isEqual?: (a: R, b: R) => boolean
+): R;
+export function useConfigSelector<T extends IConfig, R>(
+    configInstance: Configuration<T>,
+    selector: (values: Readonly<T>) => R,
+    isEqual?: (a: R, b: R) => boolean
+): R;
+export function useConfigSelector<T extends IConfig, R>(
+    instanceOrSelector: Configuration<T> | ((values: Readonly<T>) => R),
+    selectorOrIsEqual?: ((values: Readonly<T>) => R) | ((a: R, b: R) => boolean),
+    comparator?: (a: R, b: R) => boolean
+): R {
+    const hasInstance = instanceOrSelector instanceof Configuration;
+    const configInstance = useConfiguration<T>(hasInstance ? instanceOrSelector : undefined);
+    const selector = (hasInstance ? selectorOrIsEqual : instanceOrSelector) as (values: Readonly<T>) => R;
+    const isEqual = ((hasInstance ? comparator : selectorOrIsEqual) ?? Object.is) as (a: R, b: R) => boolean;
+
+    const select = useCallback((snapshot: IConfigStoreSnapshot<T>) => selector(snapshot.values), [selector]);
+
+    return useSnapshotSelection(configInstance, select, isEqual);
+}
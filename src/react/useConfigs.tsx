@@ -1,43 +1,55 @@
-import { useEffect, useState } from "react";
+import { useCallback } from "react";
 import { Configuration } from "../Configuration.class"; // adjust import as needed
 import { IConfig } from "../interfaces/IConfigurationObject";
-
-export function useConfigs<T extends IConfig>(configInstance: Configuration<T>, keys?: (keyof T)[]): Partial<T> {
-    const [values, setValues] = useState<Partial<T>>(() => {
-        const targetKeys = keys && keys.length > 0 ? keys : configInstance.getKeys();
-
-        return parseConfigToReactFormat(configInstance, targetKeys);
-    });
-
-    useEffect(() => {
-        const targetKeys = keys && keys.length > 0 ? keys : configInstance.getKeys();
-        const unsubscribe = configInstance.subscribe(targetKeys, (changed) => {
-            setValues((prev: Partial<T>) => {
-                for (const key in changed) {
-                    const val = changed[key as keyof T];
-                    if (val !== undefined) {
-                        prev[key as keyof T] = Configuration.helperGetValue(val) as T[typeof key];
-                    }
+import { IConfigStoreSnapshot } from "../interfaces/IConfigStoreSnapshot";
+import { ConfigPath, PathValue } from "../interfaces/IConfigPaths";
+import { useConfiguration } from "./ConfigProvider";
+import { isEqualSelection, useSnapshotSelection } from "./useSnapshotSelection";
+
+/**
+ * Raw values returned by useConfigs() by the requested key
+ */
+export type ConfigValues<T extends IConfig, K extends string> = { [P in K]?: PathValue<T, P> };
+
+/**
+ * Custom hook to access several configuration values. Without keys all keys are returned. The component
+ * re-renders only when one of the values changes, the returned object must not be mutated.
+ *
+ * Usage:
+ * const values = useConfigs<IMyConfig>(configInstance, ["foo", "bar"]);
+ * const values = useConfigs<IMyConfig>(["foo", "bar"]); // Instance from ConfigProvider
+ *
+ * @param configInstance Configuration class instance, can be left out to use the instance of the nearest ConfigProvider
+ * @param keys The keys or dot separated paths we are interested in
+ * @returns The raw values by key
+ */
+export function useConfigs<T extends IConfig, K extends ConfigPath<T> = ConfigPath<T>>(keys?: K[]): ConfigValues<T, K>;
+export function useConfigs<T extends IConfig, K extends ConfigPath<T> = ConfigPath<T>>(
+    configInstance: Configuration<T>,
+    keys?: K[]
+): ConfigValues<T, K>;
+export function useConfigs<T extends IConfig, K extends ConfigPath<T>>(
+    instanceOrKeys?: Configuration<T> | K[],
+    selectedKeys?: K[]
+): ConfigValues<T, K> {
+    const configInstance = useConfiguration<T>(instanceOrKeys instanceof Configuration ? instanceOrKeys : undefined);
+    const keys = instanceOrKeys instanceof Configuration ? selectedKeys : instanceOrKeys;
+
+    const select = useCallback(
+        (snapshot: IConfigStoreSnapshot<T>): ConfigValues<T, K> => {
+            if (!keys || keys.length === 0) {
+                return snapshot.values as unknown as ConfigValues<T, K>;
+            }
+            return keys.reduce((acc, key) => {
+                const val = snapshot.getValue(key);
+                if (val !== undefined) {
+                    acc[key] = val;
                 }
+                return acc;
+            }, {} as ConfigValues<T, K>);
+        },
+        [keys]
+    );
 
-                return prev;
-            });
-        });
-        return unsubscribe;
-    }, [configInstance, keys]);
-
-    return values;
-}
-
-// Helper functions
-
-function parseConfigToReactFormat<T extends IConfig>(configInstance: Configuration<T>, keys: (keyof T)[]): Partial<T> {
-    return keys.reduce((acc, key) => {
-        const val = configInstance.getValue(key);
-        if (val !== undefined) {
-            acc[key] = Configuration.helperGetValue(val) as T[typeof key];
-        }
-
-        return acc;
-    }, {} as Partial<T>);
+    return useSnapshotSelection(configInstance, select, isEqualSelection);
 }
@@ -0,0 +1,60 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import { Configuration } from "../Configuration.class";
+import { ConfigData, IConfig } from "../interfaces/IConfigurationObject";
+import { isDeepEqual } from "../helpers/objectPaths";
+import { IConfigStoreSnapshot } from "../interfaces/IConfigStoreSnapshot";
+
+interface ISelectionCache<T extends IConfig, R> {
+    snapshot: IConfigStoreSnapshot<T>;
+    select: (snapshot: IConfigStoreSnapshot<T>) => R;
+    selection: R;
+}
+
+/**
+ * Select a value from the snapshot of a Configuration instance with useSyncExternalStore.
+ *
+ * The selection is only recomputed when the snapshot or the select function changes. While the new
+ * selection is equal to the previous one, the previous one is returned and the component does not re-render.
+ *
+ * @param configInstance
+ * @param select
+ * @param isEqual
+ * @returns
+ */
+export function useSnapshotSelection<T extends IConfig, R>(
+    configInstance: Configuration<T>,
+    select: (snapshot: IConfigStoreSnapshot<T>) => R,
+    isEqual: (a: R, b: R) => boolean
+): R {
+    const cache = useRef<ISelectionCache<T, R> | null>(null);
+
+    const subscribe = useCallback(
+        (onStoreChange: () => void) => configInstance.subscribeToChanges([], () => onStoreChange()),
+        [configInstance]
+    );
+
+    const getSelection = (): R => {
+        const snapshot = configInstance.getSnapshot();
+        const cached = cache.current;
+        if (cached && cached.snapshot === snapshot && cached.select === select) {
+            return cached.selection;
+        }
+
+        const selection = select(snapshot);
+        const kept = cached && isEqual(cached.selection, selection) ? cached.selection : selection;
+        cache.current = { snapshot, select, selection: kept };
+        return kept;
+    };
+
+    return useSyncExternalStore(subscribe, getSelection, getSelection);
+}
+
+/**
+ * Compare selections of raw configuration data by value
+ * @param a
+ * @param b
+ * @returns
+ */
+export function isEqualSelection(a: unknown, b: unknown): boolean {
+    return isDeepEqual(a as ConfigData | undefined, b as ConfigData | undefined);
+}
@@ -0,0 +1,145 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, expect, test } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { useUserSettingsForm } from "./useUserSettingsForm";
+
+interface TestConfig extends IConfig {
+    theme: string;
+    fontSize: number;
+    other: string;
+}
+
+const defaults: TestConfig = { theme: "light", fontSize: 14, other: "value" };
+
+describe("React hooks: useUserSettingsForm", () => {
+    test("Edits are kept in a draft until they are committed to the USER level", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10 });
+        const { result } = renderHook(() => useUserSettingsForm(conf, ["theme", "fontSize"]));
+
+        expect(result.current.values).toEqual({ theme: "light", fontSize: 14 });
+        expect(result.current.isDirty).toBe(false);
+
+        act(() => {
+            result.current.fields.theme.onChange("dark");
+            result.current.setValue("fontSize", 16);
+        });
+
+        expect(result.current.fields.theme).toMatchObject({ name: "theme", value: "dark", isDirty: true });
+        expect(result.current.dirty).toEqual({ theme: true, fontSize: true });
+        expect(conf.getValue("theme")).toBe("light");
+
+        // Changing the value back is not an edit
+        act(() => {
+            result.current.setValue("fontSize", 14);
+        });
+        expect(result.current.dirty.fontSize).toBe(false);
+
+        let committed = false;
+        act(() => {
+            committed = result.current.commit();
+        });
+
+        expect(committed).toBe(true);
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({
+            theme: { value: "dark", level: CONFIGLEVEL.USER, readonly: false },
+        });
+        expect(conf.getHistory()).toHaveLength(1);
+        expect(result.current.isDirty).toBe(false);
+        expect(result.current.values.theme).toBe("dark");
+    });
+
+    test("Untouched fields follow the effective values and reset() drops the draft", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const { result } = renderHook(() => useUserSettingsForm(conf, ["theme", "fontSize"]));
+
+        act(() => {
+            result.current.setValue("theme", "dark");
+        });
+        act(() => {
+            conf.setBackendConfig({ theme: "blue", fontSize: 12 });
+        });
+
+        expect(result.current.values).toEqual({ theme: "dark", fontSize: 12 });
+
+        act(() => {
+            result.current.reset();
+        });
+
+        expect(result.current.values).toEqual({ theme: "blue", fontSize: 12 });
+        expect(result.current.isDirty).toBe(false);
+    });
+
+    test("Invalid values are reported and nothing is committed", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            schema: { fontSize: { type: "number", min: 8, max: 32 } },
+        });
+        const { result } = renderHook(() => useUserSettingsForm(conf, ["theme", "fontSize"]));
+
+        act(() => {
+            result.current.setValue("theme", "dark");
+            result.current.setValue("fontSize", 100);
+        });
+
+        expect(result.current.errors).toEqual({ fontSize: "Value must be at most 32" });
+        expect(result.current.fields.fontSize.error).toBe("Value must be at most 32");
+        expect(result.current.isValid).toBe(false);
+
+        let committed = true;
+        act(() => {
+            committed = result.current.commit();
+        });
+
+        expect(committed).toBe(false);
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({});
+
+        act(() => {
+            result.current.setValue("fontSize", 20);
+        });
+        expect(result.current.isValid).toBe(true);
+    });
+
+    test("Blocked writes keep the draft and report an error on the key", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            writePolicies: { theme: [CONFIGLEVEL.BACKEND] },
+        });
+        const { result } = renderHook(() => useUserSettingsForm(conf, ["theme", "fontSize"]));
+
+        act(() => {
+            result.current.setValue("theme", "dark");
+            result.current.setValue("fontSize", 16);
+        });
+
+        let committed = true;
+        act(() => {
+            committed = result.current.commit();
+        });
+
+        expect(committed).toBe(false);
+        expect(result.current.errors).toEqual({ theme: "The value can not be changed" });
+        expect(result.current.values).toEqual({ theme: "dark", fontSize: 16 });
+        expect(result.current.isDirty).toBe(true);
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({});
+    });
+
+    test("restoreDefaults() clears the user overrides of the form keys", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setUserConfig({ theme: "dark", fontSize: 18, other: "userValue" });
+        const { result } = renderHook(() => useUserSettingsForm(conf, ["theme", "fontSize"]));
+
+        act(() => {
+            result.current.setValue("theme", "blue");
+        });
+        act(() => {
+            result.current.restoreDefaults();
+        });
+
+        expect(result.current.values).toEqual({ theme: "light", fontSize: 14 });
+        expect(result.current.isDirty).toBe(false);
+        expect(conf.getValue("other")).toBe("userValue");
+    });
+});
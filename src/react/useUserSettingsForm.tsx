@@ -0,0 +1,202 @@
+import { useCallback, useState } from "react";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { ConfigPath, PathValue } from "../interfaces/IConfigPaths";
+import { useConfiguration } from "./ConfigProvider";
+import { ConfigValues, useConfigs } from "./useConfigs";
+import { isEqualSelection } from "./useSnapshotSelection";
+
+/**
+ * Binding of a single field of a settings form
+ */
+export interface ISettingsField<V> {
+    /**
+     * The key of the field
+     */
+    name: string;
+
+    /**
+     * The draft value, the effective value until the field is changed
+     */
+    value: V;
+    onChange: (value: V) => void;
+
+    /**
+     * True if the draft value differs from the effective value
+     */
+    isDirty: boolean;
+
+    /**
+     * Reason why the draft value fails the schema validation
+     */
+    error: string | null;
+}
+
+/**
+ * Draft state and actions returned by useUserSettingsForm()
+ */
+export interface IUserSettingsForm<T extends IConfig, K extends string> {
+    values: { [P in K]: PathValue<T, P> };
+    fields: { [P in K]: ISettingsField<PathValue<T, P>> };
+    dirty: { [P in K]: boolean };
+    errors: { [P in K]?: string };
+
+    /**
+     * True if any of the fields is dirty
+     */
+    isDirty: boolean;
+
+    /**
+     * True if none of the fields has a validation error
+     */
+    isValid: boolean;
+    setValue: <P extends K>(key: P, value: PathValue<T, P>) => void;
+
+    /**
+     * Write the changed draft values to the USER level with a single setUserConfig() call. Nothing is written
+     * if a value fails the validation or the USER level may not write it, the draft is kept with an error on the key.
+     * @returns true if all values were written
+     */
+    commit: () => boolean;
+
+    /**
+     * Return the draft to the current effective values
+     */
+    reset: () => void;
+
+    /**
+     * Remove the USER level values of the keys of the form and reset the draft
+     */
+    restoreDefaults: () => void;
+}
+
+/**
+ * Custom hook for settings pages that edit the USER level with a save and cancel flow. The edits are kept
+ * in a local draft until commit() writes them, fields that are not edited follow the effective values live.
+ *
+ * Usage:
+ * const form = useUserSettingsForm(configInstance, ["theme", "fontSize"]);
+ * <input value={form.fields.theme.value} onChange={(e) => form.fields.theme.onChange(e.target.value)} />
+ * <button disabled={!form.isDirty || !form.isValid} onClick={form.commit}>Save</button>
+ *
+ * @param configInstance Configuration class instance, can be left out to use the instance of the nearest ConfigProvider
+ * @param keys The keys or dot separated paths edited by the form
+ * @returns
+ */
+export function useUserSettingsForm<T extends IConfig, K extends ConfigPath<T> = ConfigPath<T>>(
+    keys: K[]
+): IUserSettingsForm<T, K>;
+export function useUserSettingsForm<T extends IConfig, K extends ConfigPath<T> = ConfigPath<T>>(
+    configInstance: Configuration<T>,
+    keys: K[]
+): IUserSettingsForm<T, K>;
+export function useUserSettingsForm<T extends IConfig, K extends ConfigPath<T>>(
+    instanceOrKeys: Configuration<T> | K[],
+    selectedKeys?: K[]
+): IUserSettingsForm<T, K> {
+    const configInstance = useConfiguration<T>(instanceOrKeys instanceof Configuration ? instanceOrKeys : undefined);
+    const keys = (instanceOrKeys instanceof Configuration ? selectedKeys : instanceOrKeys) ?? [];
+
+    const current = useConfigs(configInstance, keys);
+    const [edits, setEdits] = useState<ConfigValues<T, K>>({});
+    const [errors, setErrors] = useState<{ [P in K]?: string }>({});
+
+    const values = {} as { [P in K]: PathValue<T, P> };
+    const dirty = {} as { [P in K]: boolean };
+    keys.forEach((key) => {
+        const edited = Object.prototype.hasOwnProperty.call(edits, key);
+        values[key] = (edited ? edits[key] : current[key]) as PathValue<T, K>;
+        dirty[key] = edited && !isEqualSelection(edits[key], current[key]);
+    });
+
+    const setValue = useCallback(
+        <P extends K>(key: P, value: PathValue<T, P>) => {
+            const reason = configInstance.validate(key, value);
+            setEdits((prev) => ({ ...prev, [key]: value }));
+            setErrors((prev) => {
+                const next = { ...prev };
+                if (reason === null) {
+                    delete next[key];
+                } else {
+                    next[key] = reason;
+                }
+                return next;
+            });
+        },
+        [configInstance]
+    );
+
+    const reset = useCallback(() => {
+        setEdits({});
+        setErrors({});
+    }, []);
+
+    const changedKeys = keys.filter((key) => dirty[key]);
+
+    const commit = (): boolean => {
+        const invalid = changedKeys.reduce(
+            (acc, key) => {
+                const reason = configInstance.isWritable(key, CONFIGLEVEL.USER)
+                    ? configInstance.validate(key, values[key])
+                    : "The value can not be changed";
+                if (reason !== null) {
+                    acc[key] = reason;
+                }
+                return acc;
+            },
+            {} as { [P in K]?: string }
+        );
+        if (Object.keys(invalid).length > 0) {
+            setErrors(invalid);
+            return false;
+        }
+
+        const config = changedKeys.reduce((acc, key) => ({ ...acc, [key]: values[key] }), {} as Partial<T>);
+        try {
+            // The draft is kept if some of the values were not written
+            if (changedKeys.length > 0 && !configInstance.setUserConfig(config)) {
+                return false;
+            }
+            reset();
+            return true;
+        } catch (err) {
+            // Validation errors thrown by the reject policy are shown on the field
+            if (!(err instanceof ConfigurationError) || err.details?.key === undefined) {
+                throw err;
+            }
+            setErrors({ [err.details.key]: err.details.reason ?? err.message } as { [P in K]?: string });
+            return false;
+        }
+    };
+
+    const restoreDefaults = () => {
+        configInstance.deleteLevelConfig(CONFIGLEVEL.USER, keys);
+        reset();
+    };
+
+    const fields = {} as { [P in K]: ISettingsField<PathValue<T, P>> };
+    keys.forEach((key) => {
+        fields[key] = {
+            name: key,
+            value: values[key],
+            onChange: (value) => setValue(key, value),
+            isDirty: dirty[key],
+            error: errors[key] ?? null,
+        };
+    });
+
+    return {
+        values,
+        fields,
+        dirty,
+        errors,
+        isDirty: changedKeys.length > 0,
+        isValid: Object.keys(errors).length === 0,
+        setValue,
+        commit,
+        reset,
+        restoreDefaults,
+    };
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IBackendPushMessage, IBackendPushSocket } from "../interfaces/IBackendUpdate";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10 };
+
+const reconnect = { initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2, jitter: 0 };
+
+/**
+ * In-process stand-in for a WebSocket or EventSource connection
+ */
+class FakeSocket implements IBackendPushSocket {
+    public onopen: ((event: any) => void) | null = null;
+    public onmessage: ((event: { data: any }) => void) | null = null;
+    public onerror: ((event: any) => void) | null = null;
+    public onclose: ((event: any) => void) | null = null;
+    public closed = false;
+
+    public close(): void {
+        this.closed = true;
+    }
+}
+
+/**
+ * In-process stand-in server that hands out sockets and pushes messages to the open one
+ */
+class FakePushServer {
+    public sockets: FakeSocket[] = [];
+    public online = true;
+
+    public connect = (): IBackendPushSocket => {
+        const socket = new FakeSocket();
+        this.sockets.push(socket);
+        const online = this.online;
+        queueMicrotask(() => (online ? socket.onopen?.({}) : socket.onerror?.({})));
+        return socket;
+    };
+
+    public get current(): FakeSocket {
+        return this.sockets[this.sockets.length - 1];
+    }
+
+    public send(message: IBackendPushMessage | string): void {
+        this.current.onmessage?.({ data: typeof message === "string" ? message : JSON.stringify(message) });
+    }
+
+    public drop(): void {
+        this.current.onclose?.({});
+    }
+}
+
+describe("Push based backend updates", () => {
+    beforeEach(() => {
+        Configuration.clearInstance();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("Snapshots replace and patches update the backend level", async () => {
+        const server = new FakePushServer();
+        const conf = new Configuration<TestConfig>(defaults, { backendPush: { connect: server.connect } });
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(conf.getBackendStatus().pushConnected).toBe(true);
+
+        server.send({ type: "snapshot", config: { foo: "pushedA", bar: 20 } });
+        expect(conf.getValue("foo")).toBe("pushedA");
+        expect(conf.getValue("bar")).toBe(20);
+
+        server.send({ type: "patch", config: { bar: 30 } });
+        expect(conf.getValue("foo")).toBe("pushedA");
+        expect(conf.getValue("bar")).toBe(30);
+
+        server.send({ type: "snapshot", config: { bar: 40 } });
+        expect(conf.getValue("foo")).toBe("defaultA");
+        expect(conf.getValue("bar")).toBe(40);
+
+        conf.stopBackendPush();
+        expect(server.current.closed).toBe(true);
+        expect(conf.getBackendStatus().pushConnected).toBe(false);
+    });
+
+    test("Subscribers are notified of pushed values", async () => {
+        const server = new FakePushServer();
+        const conf = new Configuration<TestConfig>(defaults, { backendPush: { connect: server.connect } });
+        const cb = vi.fn();
+        conf.subscribe(["bar"], cb);
+
+        await vi.advanceTimersByTimeAsync(0);
+        server.send({ type: "patch", config: { bar: 11 } });
+
+        expect(cb).toHaveBeenCalledTimes(1);
+        conf.stopBackendPush();
+    });
+
+    test("Lost connections are reconnected with backoff and polled while disconnected", async () => {
+        const server = new FakePushServer();
+        const backendUpdateFn = vi.fn(() => Promise.resolve({ foo: "polledA" } as Partial<TestConfig>));
+        const onBackendError = vi.fn();
+
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendUpdateFn,
+            backendUpdateIntervalMs: 50,
+            backendPush: { connect: server.connect, reconnect },
+            onBackendError,
+        });
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(backendUpdateFn).not.toHaveBeenCalled();
+
+        server.online = false;
+        server.drop();
+        expect(onBackendError).toHaveBeenCalledTimes(1);
+        expect(onBackendError.mock.calls[0][0].message).toBe(ERRORCODES.BACKEND_PUSH_DISCONNECTED);
+        expect(conf.getBackendStatus().pushConnected).toBe(false);
+
+        // Polling starts immediately and continues while disconnected
+        await vi.advanceTimersByTimeAsync(0);
+        expect(conf.getValue("foo")).toBe("polledA");
+        expect(conf.getBackendStatus().running).toBe(true);
+
+        // First reconnect after 100ms fails, the next one 200ms later
+        await vi.advanceTimersByTimeAsync(100);
+        expect(server.sockets).toHaveLength(2);
+        expect(server.sockets[1].closed).toBe(true);
+
+        server.online = true;
+        await vi.advanceTimersByTimeAsync(199);
+        expect(server.sockets).toHaveLength(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(server.sockets).toHaveLength(3);
+        expect(conf.getBackendStatus().pushConnected).toBe(true);
+
+        // Polling is stopped when connected again
+        const calls = backendUpdateFn.mock.calls.length;
+        expect(conf.getBackendStatus().running).toBe(false);
+        await vi.advanceTimersByTimeAsync(500);
+        expect(backendUpdateFn).toHaveBeenCalledTimes(calls);
+
+        conf.stopBackendPush();
+    });
+
+    test("Invalid messages are reported and ignored", async () => {
+        const server = new FakePushServer();
+        const onBackendError = vi.fn();
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendPush: { connect: server.connect },
+            onBackendError,
+        });
+        await vi.advanceTimersByTimeAsync(0);
+
+        server.send("{not json");
+        server.send(JSON.stringify({ type: "unknown", config: { bar: 1 } }));
+        server.send(JSON.stringify({ type: "patch", config: "bar" }));
+
+        expect(conf.getValue("bar")).toBe(10);
+        expect(onBackendError).toHaveBeenCalledTimes(3);
+        onBackendError.mock.calls.forEach(([error]) => {
+            expect(error).toBeInstanceOf(ConfigurationError);
+            expect(error.message).toBe(ERRORCODES.BACKEND_PUSH_INVALID_MESSAGE);
+        });
+
+        conf.stopBackendPush();
+    });
+
+    test("Starting the push without options throws", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        expect(() => conf.startBackendPush()).toThrowError(ERRORCODES.NO_BACKEND_PUSH);
+    });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { computeBackoffDelay } from "../helpers/backoff";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10 };
+
+const retry = { maxAttempts: 3, initialDelayMs: 100, maxDelayMs: 250, multiplier: 2, jitter: 0 };
+
+/**
+ * Backend update function that fails the given number of times before succeeding
+ */
+function failingBackend(failures: number) {
+    let calls = 0;
+    return vi.fn((): Promise<Partial<TestConfig>> => {
+        calls++;
+        if (calls <= failures) {
+            return Promise.reject(new Error(`Outage ${calls}`));
+        }
+        return Promise.resolve({ bar: calls });
+    });
+}
+
+describe("Backend update retries", () => {
+    beforeEach(() => {
+        Configuration.clearInstance();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("Failures are reported and polling continues after a transient outage", async () => {
+        const backendUpdateFn = failingBackend(2);
+        const onBackendError = vi.fn();
+
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendUpdateFn,
+            backendUpdateIntervalMs: 1000,
+            backendUpdateStartImmediate: true,
+            backendRetry: retry,
+            onBackendError,
+        });
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(onBackendError).toHaveBeenCalledTimes(1);
+        expect(onBackendError.mock.calls[0][0]).toBeInstanceOf(ConfigurationError);
+        expect(onBackendError.mock.calls[0][0].message).toBe(ERRORCODES.BACKEND_UPDATE_FAILED);
+        expect(onBackendError.mock.calls[0][1].consecutiveFailures).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(onBackendError).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(200);
+        expect(backendUpdateFn).toHaveBeenCalledTimes(3);
+        expect(conf.getValue("bar")).toBe(3);
+
+        const status = conf.getBackendStatus();
+        expect(status.running).toBe(true);
+        expect(status.consecutiveFailures).toBe(0);
+        expect(status.lastError).toBeNull();
+        expect(status.lastSuccessAt).toBe(Date.now());
+        expect(status.nextRunAt).toBe(Date.now() + 1000);
+
+        conf.stopBackendAutoUpdate();
+    });
+
+    test("Retries use exponential backoff and fall back to the interval after max attempts", async () => {
+        const backendUpdateFn = failingBackend(Infinity);
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendUpdateFn,
+            backendUpdateIntervalMs: 1000,
+            backendRetry: retry,
+            onBackendError: () => {},
+        });
+
+        await expect(conf.startBackendAutoUpdate()).rejects.toThrow(ConfigurationError);
+
+        const delays: number[] = [];
+        for (let i = 0; i < 5; i++) {
+            const status = conf.getBackendStatus();
+            const delay = (status.nextRunAt as number) - Date.now();
+            delays.push(delay);
+            await vi.advanceTimersByTimeAsync(delay);
+        }
+
+        expect(delays).toEqual([100, 200, 250, 1000, 1000]);
+        expect(backendUpdateFn).toHaveBeenCalledTimes(6);
+
+        const status = conf.getBackendStatus();
+        expect(status.consecutiveFailures).toBe(6);
+        expect(status.lastError?.cause?.message).toBe("Outage 6");
+        expect(status.lastSuccessAt).toBeNull();
+
+        conf.stopBackendAutoUpdate();
+    });
+
+    test("Stopping the update ignores requests still in flight", async () => {
+        let resolve: (value: Partial<TestConfig>) => void = () => {};
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendUpdateFn: () => new Promise((res) => (resolve = res)),
+            backendUpdateIntervalMs: 100,
+        });
+
+        conf.startBackendAutoUpdate();
+        expect(conf.getBackendStatus().running).toBe(true);
+
+        conf.stopBackendAutoUpdate();
+        resolve({ bar: 99 });
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(conf.getValue("bar")).toBe(10);
+        expect(conf.getBackendStatus()).toEqual({
+            running: false,
+            lastSuccessAt: null,
+            lastError: null,
+            consecutiveFailures: 0,
+            nextRunAt: null,
+            pushConnected: false,
+        });
+    });
+
+    test("A throwing onBackendError does not stop the retries or cause unhandled rejections", async () => {
+        const unhandled = vi.fn();
+        process.on("unhandledRejection", unhandled);
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const backendUpdateFn = failingBackend(2);
+        const onBackendError = vi.fn(() => {
+            throw new Error("Broken handler");
+        });
+
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendUpdateFn,
+            backendUpdateIntervalMs: 1000,
+            backendRetry: retry,
+            onBackendError,
+        });
+
+        await expect(conf.startBackendAutoUpdate()).rejects.toThrow(ERRORCODES.BACKEND_UPDATE_FAILED);
+        await vi.advanceTimersByTimeAsync(300);
+        // Give the runtime a chance to report rejections
+        vi.useRealTimers();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(onBackendError).toHaveBeenCalledTimes(2);
+        expect(backendUpdateFn).toHaveBeenCalledTimes(3);
+        expect(conf.getValue("bar")).toBe(3);
+        expect(warn).toHaveBeenCalledWith(ERRORCODES.BACKEND_UPDATE_FAILED, expect.any(Error));
+        expect(unhandled).not.toHaveBeenCalled();
+
+        conf.stopBackendAutoUpdate();
+        warn.mockRestore();
+        process.off("unhandledRejection", unhandled);
+    });
+
+    test("Backoff delay is capped and varied by the jitter", () => {
+        const options = { initialDelayMs: 100, maxDelayMs: 1000, multiplier: 3, jitter: 0.5 };
+
+        expect(computeBackoffDelay(1, options, () => 0.5)).toBe(100);
+        expect(computeBackoffDelay(2, options, () => 0.5)).toBe(300);
+        expect(computeBackoffDelay(5, options, () => 0.5)).toBe(1000);
+
+        expect(computeBackoffDelay(2, options, () => 0)).toBe(150);
+        expect(computeBackoffDelay(2, options, () => 1)).toBe(450);
+    });
+});
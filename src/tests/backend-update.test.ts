@@ -52,7 +52,7 @@ describe("Backend update process", () => {
             }
         );
 
-        const cb = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cb = vi.fn();
 
         conf.subscribe(["bar"], cb);
 
@@ -88,7 +88,7 @@ describe("Backend update process", () => {
             }
         );
 
-        const cb = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cb = vi.fn();
 
         conf.subscribe(["bar"], cb);
 
@@ -0,0 +1,143 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IFlagDefinition } from "../interfaces/IFeatureFlag";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { MemoryAdapter } from "../persistence/MemoryAdapter";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    baz: boolean;
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10, baz: false };
+
+describe("Batch updates", () => {
+    test("Listeners are notified once with the combined changes", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const cb = vi.fn();
+        const changesCb = vi.fn();
+        conf.subscribe(["foo", "bar", "baz"], cb);
+        conf.subscribeToChanges([], changesCb);
+
+        const res = conf.batch(() => {
+            conf.setConfig("foo", "dynamicA");
+            conf.setUserConfig({ bar: 20 });
+            conf.setBackendConfig({ bar: 15, baz: true });
+
+            // Values read inside the batch include the earlier writes
+            expect(conf.getValue("foo")).toBe("dynamicA");
+            expect(cb).not.toHaveBeenCalled();
+            return "done";
+        });
+
+        expect(res).toBe("done");
+        expect(cb).toHaveBeenCalledTimes(1);
+        expect(cb).toHaveBeenCalledWith({
+            foo: { value: "dynamicA", level: CONFIGLEVEL.DYNAMIC, readonly: false },
+            bar: { value: 20, level: CONFIGLEVEL.USER, readonly: false },
+            baz: { value: true, level: CONFIGLEVEL.BACKEND, readonly: false },
+        });
+
+        expect(changesCb).toHaveBeenCalledTimes(1);
+        expect(changesCb.mock.calls[0][0]).toHaveLength(3);
+    });
+
+    test("Writes that cancel each other out do not notify", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const cb = vi.fn();
+        conf.subscribe(["foo"], cb);
+
+        conf.batch(() => {
+            conf.setConfig("foo", "temporary");
+            conf.deleteConfig("foo");
+        });
+
+        expect(cb).not.toHaveBeenCalled();
+    });
+
+    test("A failing write rolls back the whole batch", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            schema: { bar: { type: "number", max: 100 } },
+        });
+        conf.setUserConfig({ foo: "userA" });
+        const cb = vi.fn();
+        conf.subscribe([], cb);
+
+        expect(() =>
+            conf.batch(() => {
+                conf.setConfig("foo", "dynamicA");
+                conf.setUserConfig({ foo: "userB", baz: true });
+                conf.setConfig("bar", 1000);
+            })
+        ).toThrowError(ERRORCODES.VALIDATION_FAILED);
+
+        expect(cb).not.toHaveBeenCalled();
+        expect(conf.getValue("foo")).toBe("userA");
+        expect(conf.getValue("baz")).toBe(false);
+        expect(getValueInLevel(conf, "foo", CONFIGLEVEL.DYNAMIC)).toBeUndefined();
+        expect(getValueInLevel(conf, "foo", CONFIGLEVEL.USER)).toBe("userA");
+
+        // The instance keeps working normally after the rollback
+        conf.setConfig("bar", 50);
+        expect(cb).toHaveBeenCalledTimes(1);
+    });
+
+    test("Flag definitions written in a failed batch are rolled back", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            schema: { bar: { type: "number", max: 100 } },
+        });
+        const flag: IFlagDefinition = { kind: "flag", variants: { on: true, off: false }, defaultVariant: "on" };
+
+        expect(() =>
+            conf.batch(() => {
+                conf.setBackendConfig({ baz: flag } as unknown as Partial<TestConfig>);
+                conf.setBackendConfig({ bar: 1000 });
+            })
+        ).toThrowError(ERRORCODES.VALIDATION_FAILED);
+
+        expect(conf.getValue("baz")).toBe(false);
+        expect(conf.evaluate("baz")).toEqual({ key: "baz", value: false, variant: null, reason: "STATIC" });
+    });
+
+    test("Nested batches are committed by the outermost batch", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const cb = vi.fn();
+        conf.subscribe(["foo", "bar"], cb);
+
+        conf.batch(() => {
+            conf.setConfig("foo", "outerA");
+            conf.batch(() => {
+                conf.setConfig("bar", 30);
+            });
+            expect(cb).not.toHaveBeenCalled();
+        });
+
+        expect(cb).toHaveBeenCalledTimes(1);
+    });
+
+    test("The user configuration is saved once and not at all when rolled back", () => {
+        const adapter = new MemoryAdapter();
+        const save = vi.spyOn(adapter, "save");
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter });
+
+        conf.batch(() => {
+            conf.setUserConfig({ foo: "userA" });
+            conf.setUserConfig({ bar: 20 });
+        });
+        expect(save).toHaveBeenCalledTimes(1);
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { foo: "userA", bar: 20 } });
+
+        expect(() =>
+            conf.batch(() => {
+                conf.setUserConfig({ bar: 30 });
+                throw new Error("Cancelled");
+            })
+        ).toThrowError("Cancelled");
+        expect(save).toHaveBeenCalledTimes(1);
+        expect(conf.getValue("bar")).toBe(20);
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    http: {
+        timeoutMs: number;
+        headers: { [key: string]: string };
+    };
+}
+
+const defaults: TestConfig = {
+    foo: "defaultA",
+    bar: 10,
+    http: { timeoutMs: 1000, headers: { accept: "json" } },
+};
+
+describe("Change detection", () => {
+    test("Listeners are not called when the effective value does not change", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const cb = vi.fn();
+        conf.subscribe(["foo", "bar"], cb);
+
+        conf.setBackendConfig({ foo: "backendA" }, true);
+        conf.setBackendConfig({ foo: "backendA" }, true);
+        conf.setBackendConfig({ foo: "backendA" });
+
+        expect(cb).toHaveBeenCalledTimes(1);
+
+        // Lower levels hidden by a higher level do not change the effective value
+        conf.setConfig("bar", 20);
+        conf.setEnvironmentConfig({ bar: 15 });
+        expect(cb).toHaveBeenCalledTimes(2);
+    });
+
+    test("Change records contain the old and the new value and level", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const cb = vi.fn();
+        conf.subscribeToChanges(["foo"], cb);
+
+        conf.setUserConfig({ foo: "userA" });
+        expect(cb).toHaveBeenLastCalledWith([
+            { key: "foo", oldValue: "defaultA", newValue: "userA", oldLevel: CONFIGLEVEL.DEFAULT, newLevel: CONFIGLEVEL.USER },
+        ]);
+
+        // Same value from a higher level is a change of the level only
+        conf.setConfig("foo", "userA");
+        expect(cb).toHaveBeenLastCalledWith([
+            { key: "foo", oldValue: "userA", newValue: "userA", oldLevel: CONFIGLEVEL.USER, newLevel: CONFIGLEVEL.DYNAMIC },
+        ]);
+        expect(cb).toHaveBeenCalledTimes(2);
+    });
+
+    test("Removing a value reports the revert to the lower level", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig({ foo: "backendA", bar: 20 });
+
+        const cb = vi.fn();
+        conf.subscribeToChanges([], cb);
+
+        // Keys missing from an override are removed from the level
+        conf.setBackendConfig({ bar: 20 }, true);
+        expect(cb).toHaveBeenCalledTimes(1);
+        expect(cb).toHaveBeenLastCalledWith([
+            {
+                key: "foo",
+                oldValue: "backendA",
+                newValue: "defaultA",
+                oldLevel: CONFIGLEVEL.BACKEND,
+                newLevel: CONFIGLEVEL.DEFAULT,
+            },
+        ]);
+
+        conf.setConfig("bar", 30);
+        conf.deleteConfig("bar");
+        expect(cb).toHaveBeenLastCalledWith([
+            { key: "bar", oldValue: 30, newValue: 20, oldLevel: CONFIGLEVEL.DYNAMIC, newLevel: CONFIGLEVEL.BACKEND },
+        ]);
+    });
+
+    test("Nested paths are compared by their own value and level", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const timeoutCb = vi.fn();
+        const headerCb = vi.fn();
+        conf.subscribeToChanges(["http.timeoutMs"], timeoutCb);
+        conf.subscribeToChanges(["http.headers.auth"], headerCb);
+
+        conf.setConfig("http.headers", { accept: "json", auth: "token" });
+        expect(timeoutCb).not.toHaveBeenCalled();
+        expect(headerCb).toHaveBeenLastCalledWith([
+            {
+                key: "http.headers.auth",
+                oldValue: undefined,
+                newValue: "token",
+                oldLevel: null,
+                newLevel: CONFIGLEVEL.DYNAMIC,
+            },
+        ]);
+
+        conf.setEnvironmentConfig({ "http.timeoutMs": 2000 } as Partial<TestConfig>);
+        expect(timeoutCb).toHaveBeenLastCalledWith([
+            {
+                key: "http.timeoutMs",
+                oldValue: 1000,
+                newValue: 2000,
+                oldLevel: CONFIGLEVEL.DEFAULT,
+                newLevel: CONFIGLEVEL.ENVIRONMENT,
+            },
+        ]);
+
+        conf.deleteConfig("http.headers.auth");
+        expect(headerCb).toHaveBeenLastCalledWith([
+            {
+                key: "http.headers.auth",
+                oldValue: "token",
+                newValue: undefined,
+                oldLevel: CONFIGLEVEL.DYNAMIC,
+                newLevel: null,
+            },
+        ]);
+        expect(timeoutCb).toHaveBeenCalledTimes(1);
+    });
+
+    test("Identical backend polls do not notify subscribers", async () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            backendUpdateFn: () => Promise.resolve({ bar: 42 }),
+            backendUpdateIntervalMs: 10,
+        });
+        const cb = vi.fn();
+        conf.subscribe(["bar"], cb);
+
+        await conf.startBackendAutoUpdate();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        conf.stopBackendAutoUpdate();
+
+        expect(cb).toHaveBeenCalledTimes(1);
+    });
+});
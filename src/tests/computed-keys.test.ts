@@ -0,0 +1,208 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { ComputedKeys } from "../interfaces/IComputedKeys";
+
+interface TestConfig extends IConfig {
+    apiHost: string;
+    apiVersion: number;
+    apiUrl: string;
+    isDev: boolean;
+    userIsAdmin: boolean;
+    debugPanels: boolean;
+    endpoints: { users: string };
+}
+
+// Computed keys do not need default values
+const defaults = { apiHost: "https://api.example.com", apiVersion: 1, isDev: true, userIsAdmin: false } as TestConfig;
+
+const computed: ComputedKeys<TestConfig> = {
+    apiUrl: {
+        dependencies: ["apiHost", "apiVersion"],
+        compute: ({ apiHost, apiVersion }) => `${apiHost}/v${apiVersion}`,
+    },
+    debugPanels: {
+        dependencies: ["isDev", "userIsAdmin"],
+        compute: ({ isDev, userIsAdmin }) => isDev && userIsAdmin,
+    },
+    endpoints: {
+        dependencies: ["apiUrl"],
+        compute: ({ apiUrl }) => ({ users: `${apiUrl}/users` }),
+    },
+};
+
+describe("Computed keys", () => {
+    test("Computed values are readable like normal keys", () => {
+        const conf = new Configuration<TestConfig>(defaults, { computed });
+
+        expect(conf.getValue("apiUrl")).toBe("https://api.example.com/v1");
+        expect(conf.getValue("debugPanels")).toBe(false);
+        expect(conf.getValue("endpoints")).toEqual({ users: "https://api.example.com/v1/users" });
+        expect(conf.getValue("endpoints.users")).toBe("https://api.example.com/v1/users");
+        expect(conf.getKeys()).toContain("apiUrl");
+        expect(conf.getConfig("apiUrl")).toEqual({
+            value: "https://api.example.com/v1",
+            level: CONFIGLEVEL.COMPUTED,
+            readonly: true,
+            writableLevels: [],
+        });
+    });
+
+    test("Values are recomputed when a dependency changes on any level", () => {
+        const conf = new Configuration<TestConfig>(defaults, { computed });
+
+        conf.setEnvironmentConfig({ apiHost: "http://localhost" });
+        expect(conf.getValue("apiUrl")).toBe("http://localhost/v1");
+
+        conf.setBackendConfig({ apiVersion: 2 });
+        expect(conf.getValue("apiUrl")).toBe("http://localhost/v2");
+        expect(conf.getValue("endpoints")).toEqual({ users: "http://localhost/v2/users" });
+
+        conf.setUserConfig({ userIsAdmin: true });
+        expect(conf.getValue("debugPanels")).toBe(true);
+
+        conf.deleteConfig("apiVersion");
+        conf.setConfig("isDev", false);
+        expect(conf.getValue("debugPanels")).toBe(false);
+    });
+
+    test("Compute functions only run when the dependencies change", () => {
+        const compute = vi.fn(({ apiHost, apiVersion }: TestConfig) => `${apiHost}/v${apiVersion}`);
+        const conf = new Configuration<TestConfig>(defaults, {
+            computed: { apiUrl: { dependencies: ["apiHost", "apiVersion"], compute } },
+        });
+        expect(compute).toHaveBeenCalledTimes(1);
+
+        conf.setConfig("isDev", false);
+        conf.setBackendConfig({ apiHost: "https://api.example.com" });
+        expect(compute).toHaveBeenCalledTimes(1);
+
+        conf.setConfig("apiVersion", 3);
+        expect(compute).toHaveBeenCalledTimes(2);
+    });
+
+    test("Subscribers are notified of changed computed values", () => {
+        const conf = new Configuration<TestConfig>(defaults, { computed });
+        const cb = vi.fn();
+        const changesCb = vi.fn();
+        conf.subscribe(["apiUrl"], cb);
+        conf.subscribeToChanges(["debugPanels"], changesCb);
+
+        conf.setConfig("apiVersion", 2);
+        expect(cb).toHaveBeenCalledTimes(1);
+        expect(cb).toHaveBeenCalledWith({
+            apiUrl: { value: "https://api.example.com/v2", level: CONFIGLEVEL.COMPUTED, readonly: true },
+        });
+
+        // Changing a dependency without changing the computed value does not notify
+        conf.setConfig("isDev", false);
+        expect(changesCb).not.toHaveBeenCalled();
+        conf.setConfig("userIsAdmin", true);
+        conf.setConfig("isDev", true);
+        expect(changesCb).toHaveBeenCalledWith([
+            {
+                key: "debugPanels",
+                oldValue: false,
+                newValue: true,
+                oldLevel: CONFIGLEVEL.COMPUTED,
+                newLevel: CONFIGLEVEL.COMPUTED,
+            },
+        ]);
+    });
+
+    test("Computed keys can not be written", () => {
+        const onBlockedWrite = vi.fn();
+        const conf = new Configuration<TestConfig>(
+            { ...defaults, apiUrl: "ignored" },
+            { computed, onBlockedWrite }
+        );
+        expect(conf.getValue("apiUrl")).toBe("https://api.example.com/v1");
+
+        expect(conf.setConfig("apiUrl", "http://other")).toBe(false);
+        expect(conf.setBackendConfig({ apiUrl: "http://other", apiVersion: 4 })).toBe(false);
+        expect(conf.getValue("apiUrl")).toBe("https://api.example.com/v4");
+        expect(onBlockedWrite).toHaveBeenCalledTimes(2);
+
+        expect(conf.explain("apiUrl")).toEqual(
+            expect.objectContaining({ winningLevel: CONFIGLEVEL.COMPUTED, readonly: true, writableLevels: [] })
+        );
+    });
+
+    test("Circular and unknown dependencies are reported", () => {
+        expect(
+            () =>
+                new Configuration<TestConfig>(defaults, {
+                    computed: {
+                        ...computed,
+                        apiUrl: { dependencies: ["endpoints"], compute: ({ endpoints }) => endpoints.users },
+                    },
+                })
+        ).toThrow(`${ERRORCODES.COMPUTED_CIRCULAR_DEPENDENCY} (key "apiUrl", apiUrl -> endpoints -> apiUrl)`);
+
+        expect(
+            () =>
+                new Configuration<TestConfig>(defaults, {
+                    computed: { apiUrl: { dependencies: ["apiUrl"], compute: ({ apiUrl }) => apiUrl } },
+                })
+        ).toThrow(ERRORCODES.COMPUTED_CIRCULAR_DEPENDENCY);
+
+        expect(
+            () =>
+                new Configuration<TestConfig>(defaults, {
+                    computed: { apiUrl: { dependencies: ["missing" as keyof TestConfig], compute: () => "" } },
+                })
+        ).toThrow(ERRORCODES.UNKNOWN_CONFIG_KEY);
+    });
+
+    test("Errors thrown by compute functions are wrapped", () => {
+        expect(
+            () =>
+                new Configuration<TestConfig>(defaults, {
+                    computed: {
+                        apiUrl: {
+                            dependencies: ["apiHost"],
+                            compute: () => {
+                                throw new Error("Broken");
+                            },
+                        },
+                    },
+                })
+        ).toThrow(`${ERRORCODES.COMPUTED_KEY_FAILED} (key "apiUrl")`);
+    });
+
+    test("A write making a compute function throw is rolled back", () => {
+        const listener = vi.fn();
+        const conf = new Configuration<TestConfig>(defaults, {
+            historyLimit: 10,
+            computed: {
+                apiUrl: {
+                    dependencies: ["apiHost", "apiVersion"],
+                    compute: ({ apiHost, apiVersion }) => {
+                        if (apiVersion > 1) {
+                            throw new Error("Unsupported version");
+                        }
+                        return `${apiHost}/v${apiVersion}`;
+                    },
+                },
+            },
+        });
+        conf.subscribe([], listener);
+
+        expect(() => conf.setConfig("apiVersion", 2)).toThrow(ERRORCODES.COMPUTED_KEY_FAILED);
+        expect(() => conf.setUserConfig({ apiVersion: 3 })).toThrow(ERRORCODES.COMPUTED_KEY_FAILED);
+
+        expect(conf.getValue("apiVersion")).toBe(1);
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.DYNAMIC)).toEqual({});
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({});
+        expect(conf.getHistory()).toEqual([]);
+        expect(conf.canUndo()).toBe(false);
+        expect(listener).not.toHaveBeenCalled();
+
+        // Other keys can still be written
+        expect(conf.setConfig("isDev", false)).toBe(true);
+        expect(conf.getValue("isDev")).toBe(false);
+        expect(conf.getValue("apiUrl")).toBe("https://api.example.com/v1");
+    });
+});
@@ -0,0 +1,175 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { IConfig, IConfigurationObject } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { loadEnvironmentFiles, readConfigFiles } from "../node/loadEnvironmentFiles";
+import { detectConfigFileFormat } from "../node/parseConfigFile";
+
+interface TestConfig extends IConfig {
+    apiUrl: string;
+    retries: number;
+    debug: boolean;
+    http: {
+        timeoutMs: number;
+        headers: string[];
+    };
+}
+
+const defaults: TestConfig = {
+    apiUrl: "http://localhost",
+    retries: 1,
+    debug: false,
+    http: { timeoutMs: 1000, headers: [] },
+};
+
+describe("Loading configuration files in Node", () => {
+    let dir: string;
+
+    function file(name: string, content: string): string {
+        const path = join(dir, name);
+        writeFileSync(path, content, "utf8");
+        return path;
+    }
+
+    async function expectError(promise: Promise<unknown>): Promise<ConfigurationError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).toBeInstanceOf(ConfigurationError);
+            return error as ConfigurationError;
+        }
+        throw new Error("Expected the promise to reject");
+    }
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), "hcconfig-"));
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("Formats are detected from the file name", () => {
+        expect(detectConfigFileFormat("/etc/app/config.json")).toBe("json");
+        expect(detectConfigFileFormat("config.yml")).toBe("yaml");
+        expect(detectConfigFileFormat("config.YAML")).toBe("yaml");
+        expect(detectConfigFileFormat("config.toml")).toBe("toml");
+        expect(detectConfigFileFormat(".env")).toBe("env");
+        expect(detectConfigFileFormat(".env.production")).toBe("env");
+        expect(() => detectConfigFileFormat("config.ini")).toThrowError(ERRORCODES.CONFIG_FILE_UNSUPPORTED);
+    });
+
+    test("JSON, YAML, TOML and .env files are loaded to the environment level", async () => {
+        const json = file("json.json", JSON.stringify({ apiUrl: "http://json" }));
+        const yaml = file("yaml.yaml", "retries: 3\nhttp:\n  timeoutMs: 2000\n");
+        const toml = file("toml.toml", '[http]\nheaders = ["x-a", "x-b"]\n');
+        const env = file(".env", "# Comment\nDEBUG=true\n");
+
+        const conf = new Configuration<TestConfig>(defaults);
+        await loadEnvironmentFiles(conf, [json, yaml, toml, env]);
+
+        expect(conf.getValue("apiUrl")).toBe("http://json");
+        expect(conf.getValue("retries")).toBe(3);
+        expect(conf.getValue("debug")).toBe(true);
+        expect(conf.getValue("http.timeoutMs")).toBe(2000);
+        expect(conf.getValue("http.headers")).toEqual(["x-a", "x-b"]);
+        expect((conf.getConfig("retries") as IConfigurationObject).level).toBe(CONFIGLEVEL.ENVIRONMENT);
+    });
+
+    test("Later files override earlier files", async () => {
+        const base = file("base.json", JSON.stringify({ apiUrl: "http://base", http: { timeoutMs: 500 } }));
+        const local = file("local.yaml", "apiUrl: http://local\n");
+        const env = file("override.env", "HTTP__TIMEOUTMS=750\n");
+
+        const res = await readConfigFiles<TestConfig>(defaults, [base, local, env]);
+        expect(res.config).toEqual({ apiUrl: "http://local", http: { timeoutMs: 750 } });
+        expect(res.errors).toEqual([]);
+    });
+
+    test("Parse errors contain the file and the line", async () => {
+        const json = file("broken.json", '{\n  "apiUrl": "http://a",\n  "retries": \n}\n');
+        const jsonError = await expectError(readConfigFiles(defaults, [json]));
+        expect(jsonError.message).toContain(ERRORCODES.CONFIG_FILE_PARSE_FAILED);
+        expect(jsonError.details?.file).toBe(json);
+        expect(jsonError.details?.line).toBe(4);
+        expect(jsonError.message).toContain(`${json}:4`);
+
+        const yaml = file("broken.yaml", "apiUrl: http://a\nretries: [1, 2\n");
+        const yamlError = await expectError(readConfigFiles(defaults, [yaml]));
+        expect(yamlError.details?.file).toBe(yaml);
+        expect(yamlError.details?.line).toBeGreaterThanOrEqual(2);
+
+        const toml = file("broken.toml", 'apiUrl = "http://a"\nretries = = 3\n');
+        const tomlError = await expectError(readConfigFiles(defaults, [toml]));
+        expect(tomlError.details?.line).toBe(2);
+
+        const env = file("broken.env", "DEBUG=true\nthis is not valid\n");
+        const envError = await expectError(readConfigFiles(defaults, [env]));
+        expect(envError.details?.line).toBe(2);
+    });
+
+    test("Unknown keys and type mismatches are rejected in strict mode", async () => {
+        const unknown = file("unknown.yaml", "apiUrl: http://a\nhttp:\n  proxy: none\n");
+        const unknownError = await expectError(readConfigFiles(defaults, [unknown]));
+        expect(unknownError.message).toContain(ERRORCODES.CONFIG_FILE_UNKNOWN_KEY);
+        expect(unknownError.details?.key).toBe("http.proxy");
+
+        const mismatch = file("mismatch.json", JSON.stringify({ retries: "three" }));
+        const mismatchError = await expectError(readConfigFiles(defaults, [mismatch]));
+        expect(mismatchError.message).toContain(ERRORCODES.CONFIG_FILE_TYPE_MISMATCH);
+        expect(mismatchError.details?.key).toBe("retries");
+
+        const env = file("mismatch.env", "RETRIES=many\n");
+        const envError = await expectError(readConfigFiles(defaults, [env]));
+        expect(envError.details?.key).toBe("retries");
+
+        const conf = new Configuration<TestConfig>(defaults);
+        await expectError(loadEnvironmentFiles(conf, [mismatch]));
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.ENVIRONMENT)).toEqual({});
+    });
+
+    test("Invalid values are skipped and returned when strict mode is off", async () => {
+        const path = file("lenient.toml", 'apiUrl = "http://toml"\nretries = "three"\nunknown = 1\n');
+
+        const conf = new Configuration<TestConfig>(defaults);
+        const res = await loadEnvironmentFiles(conf, [path], { strict: false });
+
+        expect(conf.getValue("apiUrl")).toBe("http://toml");
+        expect(conf.getValue("retries")).toBe(1);
+        expect(res.errors.map((e) => e.details?.key)).toEqual(["retries", "unknown"]);
+    });
+
+    test("Missing files are reported", async () => {
+        const missing = join(dir, "missing.json");
+        const error = await expectError(readConfigFiles(defaults, [missing]));
+        expect(error.message).toContain(ERRORCODES.CONFIG_FILE_READ_FAILED);
+        expect(error.details?.file).toBe(missing);
+    });
+
+    test("Secret keys are checked against the types of their default values", async () => {
+        const path = file("secret.json", JSON.stringify({ pin: 999 }));
+        const conf = new Configuration<TestConfig & { pin: number }>(
+            { ...defaults, pin: 1234 },
+            { secretKeys: ["pin"] }
+        );
+
+        await loadEnvironmentFiles(conf, [path]);
+
+        expect(conf.getSecret("pin")).toBe(999);
+        expect(conf.getValue("pin")).toBe("***");
+
+        // The type reference does not reveal the secret default
+        expect(conf.getDefaultTypes()).toEqual({
+            apiUrl: "",
+            retries: 0,
+            debug: false,
+            pin: 0,
+            http: { timeoutMs: 0, headers: [] },
+        });
+    });
+});
@@ -113,6 +113,21 @@ describe("Configuration levels", () => {
         expect(Object.keys(c.getConfigsForLevel(CONFIGLEVEL.DYNAMIC)).length).toBe(0);
     });
 
+    test("Values of other levels are deleted with deleteLevelConfig", () => {
+        const c = new Configuration<TestConfig>({ foo: "test", bar: 42 });
+        c.setBackendConfig({ foo: "backendFoo" });
+        c.setUserConfig({ foo: "userFoo", bar: 20 });
+
+        c.deleteLevelConfig(CONFIGLEVEL.USER, ["foo", "bar"]);
+        expect(c.getConfigsForLevel(CONFIGLEVEL.USER)).toEqual({});
+        expect(c.getValue("foo")).toBe("backendFoo");
+        expect(c.getValue("bar")).toBe(42);
+
+        expect(() => c.deleteLevelConfig(CONFIGLEVEL.DEFAULT, ["foo"])).toThrowError(
+            ERRORCODES.DEFAULT_LEVEL_IS_IMMUTABLE
+        );
+    });
+
     test("Other levels override their preceding levels correctly", () => {
         const c = new Configuration<TestConfig>({ foo: "defaultFoo", bar: 42 });
         expect(c.getValue("foo")).toBe("defaultFoo");
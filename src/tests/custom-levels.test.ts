@@ -0,0 +1,111 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10 };
+
+const levels = [
+    CONFIGLEVEL.DEFAULT,
+    CONFIGLEVEL.ENVIRONMENT,
+    CONFIGLEVEL.BACKEND,
+    "tenant",
+    CONFIGLEVEL.USER,
+    "experiment",
+    CONFIGLEVEL.DYNAMIC,
+];
+
+describe("Custom configuration levels", () => {
+    test("Custom levels are merged in the declared order", () => {
+        const conf = new Configuration<TestConfig>(defaults, { levels });
+
+        conf.setLevelConfig("tenant", { foo: "tenantA", bar: 20 });
+        expect(conf.getValue("foo")).toBe("tenantA");
+        expect(conf.getConfig("foo")).toEqual({
+            value: "tenantA",
+            level: "tenant",
+            readonly: false,
+            writableLevels: ["tenant", CONFIGLEVEL.USER, "experiment", CONFIGLEVEL.DYNAMIC],
+        });
+
+        // Backend is below the tenant level
+        conf.setBackendConfig({ foo: "backendA" });
+        expect(conf.getValue("foo")).toBe("tenantA");
+
+        // User is above the tenant level and the experiment above the user
+        conf.setUserConfig({ foo: "userA" });
+        conf.setLevelConfig("experiment", { foo: "experimentA" });
+        expect(conf.getValue("foo")).toBe("experimentA");
+        expect(conf.getValue("bar")).toBe(20);
+
+        expect(conf.getConfigsForLevel("tenant")).toEqual({
+            foo: { value: "tenantA", level: "tenant", readonly: false },
+            bar: { value: 20, level: "tenant", readonly: false },
+        });
+        expect(getValueInLevel(conf, "foo", "experiment")).toBe("experimentA");
+    });
+
+    test("Custom levels support override, validation, subscriptions and explain", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            levels,
+            schema: { bar: { type: "number", max: 100 } },
+        });
+        const cb = vi.fn();
+        conf.subscribeToChanges(["bar"], cb);
+
+        conf.setLevelConfig("tenant", { foo: "tenantA", bar: 20 });
+        conf.setLevelConfig("tenant", { foo: "tenantB" }, true);
+        expect(conf.getValue("bar")).toBe(10);
+        expect(cb).toHaveBeenLastCalledWith([
+            { key: "bar", oldValue: 20, newValue: 10, oldLevel: "tenant", newLevel: CONFIGLEVEL.DEFAULT },
+        ]);
+
+        expect(() => conf.setLevelConfig("experiment", { bar: 1000 })).toThrowError(ERRORCODES.VALIDATION_FAILED);
+
+        expect(conf.explain("foo").levels.map((l) => l.level)).toEqual(levels);
+    });
+
+    test("Built-in levels can be left out", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            levels: [CONFIGLEVEL.DEFAULT, "region", CONFIGLEVEL.DYNAMIC],
+        });
+
+        conf.setLevelConfig("region", { foo: "regionA" });
+        conf.setConfig("bar", 30);
+        expect(conf.getValue("foo")).toBe("regionA");
+        expect(conf.getValue("bar")).toBe(30);
+
+        expect(() => conf.setUserConfig({ foo: "userA" })).toThrowError(ERRORCODES.UNKNOWN_CONFIG_LEVEL);
+        expect(() => conf.getConfigsForLevel(CONFIGLEVEL.BACKEND)).toThrowError(ERRORCODES.UNKNOWN_CONFIG_LEVEL);
+    });
+
+    test("Invalid level declarations and writes are rejected", () => {
+        expect(() => new Configuration<TestConfig>(defaults, { levels: ["tenant", CONFIGLEVEL.DEFAULT] })).toThrowError(
+            ERRORCODES.INVALID_LEVELS
+        );
+        expect(
+            () => new Configuration<TestConfig>(defaults, { levels: [CONFIGLEVEL.DEFAULT, "tenant", "tenant"] })
+        ).toThrowError(ERRORCODES.INVALID_LEVELS);
+
+        const conf = new Configuration<TestConfig>(defaults, { levels });
+        expect(() => conf.setLevelConfig("unknown", { foo: "a" })).toThrowError(ERRORCODES.UNKNOWN_CONFIG_LEVEL);
+        expect(() => conf.setLevelConfig(CONFIGLEVEL.DEFAULT, { foo: "a" })).toThrowError(
+            ERRORCODES.DEFAULT_LEVEL_IS_IMMUTABLE
+        );
+    });
+
+    test("Read-only keys are only enforced on the user and dynamic levels", () => {
+        const conf = new Configuration<TestConfig>(defaults, { levels, readOnlyKeys: ["foo"] });
+
+        conf.setLevelConfig("tenant", { foo: "tenantA" });
+        conf.setLevelConfig(CONFIGLEVEL.USER, { foo: "userA" });
+        expect(conf.getValue("foo")).toBe("tenantA");
+    });
+});
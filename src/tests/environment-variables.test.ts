@@ -0,0 +1,101 @@
+import { describe, expect, test } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { loadEnvironmentVariables } from "../loaders/environmentVariables";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    apiUrl: string;
+    apiTimeout: number;
+    debug: boolean;
+    origins: string[];
+    http: { retries: number; keepAlive: boolean };
+}
+
+const defaults: TestConfig = {
+    apiUrl: "http://localhost",
+    apiTimeout: 1000,
+    debug: true,
+    origins: [],
+    http: { retries: 3, keepAlive: true },
+};
+
+describe("Loading environment variables", () => {
+    test("Prefixed variables are mapped to keys and coerced to the type of the default value", () => {
+        const res = loadEnvironmentVariables<TestConfig>(defaults, {
+            APP_API_URL: "https://example.com",
+            APP_API_TIMEOUT: "2500",
+            APP_DEBUG: "false",
+            APP_ORIGINS: '["https://a.example"]',
+            PATH: "/usr/bin",
+        }, { prefix: "APP_" });
+
+        expect(res.config).toEqual({
+            apiUrl: "https://example.com",
+            apiTimeout: 2500,
+            debug: false,
+            origins: ["https://a.example"],
+        });
+        expect(res.unknownKeys).toEqual([]);
+        expect(res.invalidKeys).toEqual([]);
+    });
+
+    test("Boolean values accept common notations", () => {
+        const values = ["true", "1", "yes", "ON", "false", "0", "no", "off"];
+        const results = values.map((v) => loadEnvironmentVariables<TestConfig>(defaults, { DEBUG: v }).config.debug);
+
+        expect(results).toEqual([true, true, true, true, false, false, false, false]);
+    });
+
+    test("Nested values are mapped with the nesting separator", () => {
+        const res = loadEnvironmentVariables<TestConfig>(defaults, {
+            APP_HTTP__RETRIES: "5",
+            APP_HTTP__KEEP_ALIVE: "no",
+        }, { prefix: "APP_" });
+
+        expect(res.config).toEqual({ "http.retries": 5, "http.keepAlive": false });
+    });
+
+    test("Custom name maps are used before the prefix mapping", () => {
+        const res = loadEnvironmentVariables<TestConfig>(defaults, {
+            BACKEND_URL: "https://backend.example",
+            APP_RETRY_COUNT: "7",
+        }, { prefix: "APP_", nameMap: { BACKEND_URL: "apiUrl", APP_RETRY_COUNT: "http.retries" } });
+
+        expect(res.config).toEqual({ apiUrl: "https://backend.example", "http.retries": 7 });
+    });
+
+    test("Unknown and unparsable variables are reported", () => {
+        const res = loadEnvironmentVariables<TestConfig>(defaults, {
+            APP_API_TIMEOUT: "soon",
+            APP_DEBUG: "maybe",
+            APP_ORIGINS: "{}",
+            APP_UNKNOWN: "1",
+            OTHER: "1",
+        }, { prefix: "APP_", nameMap: { MAPPED_MISSING: "missing" } });
+
+        expect(res.config).toEqual({});
+        expect(res.unknownKeys).toEqual(["APP_UNKNOWN"]);
+        expect(res.invalidKeys).toEqual([
+            { name: "APP_API_TIMEOUT", key: "apiTimeout", value: "soon", reason: '"soon" is not a number' },
+            { name: "APP_DEBUG", key: "debug", value: "maybe", reason: '"maybe" is not a boolean' },
+            { name: "APP_ORIGINS", key: "origins", value: "{}", reason: "Expected type array but got object" },
+        ]);
+    });
+
+    test("Configuration loads the variables into the environment level", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        const res = conf.loadEnvironmentVariables(
+            { APP_API_TIMEOUT: "30", APP_HTTP__RETRIES: "1", APP_FOO: "bar" },
+            { prefix: "APP_" }
+        );
+
+        expect(res.unknownKeys).toEqual(["APP_FOO"]);
+        expect(conf.getValue("apiTimeout")).toBe(30);
+        expect(conf.getValue("http")).toEqual({ retries: 1, keepAlive: true });
+        expect(getValueInLevel(conf, "apiTimeout", CONFIGLEVEL.ENVIRONMENT)).toBe(30);
+        expect(getValueInLevel(conf, "http", CONFIGLEVEL.ENVIRONMENT)).toEqual({ retries: 1 });
+    });
+});
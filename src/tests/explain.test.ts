@@ -0,0 +1,92 @@
+import { describe, expect, test } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    http: {
+        timeoutMs: number;
+        retries: number;
+    };
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10, http: { timeoutMs: 1000, retries: 3 } };
+
+describe("Explaining configuration values", () => {
+    test("Explain lists the value of every level and the winning level", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setEnvironmentConfig({ foo: "envA" });
+        conf.setUserConfig({ foo: "userA" });
+
+        expect(conf.explain("foo")).toEqual({
+            key: "foo",
+            value: "userA",
+            winningLevel: CONFIGLEVEL.USER,
+            readonly: false,
+            secret: false,
+            writableLevels: [CONFIGLEVEL.USER, CONFIGLEVEL.DYNAMIC],
+            levels: [
+                { level: CONFIGLEVEL.DEFAULT, present: true, value: "defaultA" },
+                { level: CONFIGLEVEL.ENVIRONMENT, present: true, value: "envA" },
+                { level: CONFIGLEVEL.BACKEND, present: false, value: undefined },
+                { level: CONFIGLEVEL.USER, present: true, value: "userA" },
+                { level: CONFIGLEVEL.DYNAMIC, present: false, value: undefined },
+            ],
+            blockedWrites: [],
+        });
+    });
+
+    test("Nested paths are explained by their own value on each level", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig({ "http.timeoutMs": 2000 } as Partial<TestConfig>);
+        conf.setConfig("http.retries", 5);
+
+        const explanation = conf.explain("http.timeoutMs");
+        expect(explanation.value).toBe(2000);
+        expect(explanation.winningLevel).toBe(CONFIGLEVEL.BACKEND);
+        expect(explanation.levels.map((l) => l.present)).toEqual([true, false, true, false, false]);
+
+        expect(conf.explain("http").winningLevel).toBe(CONFIGLEVEL.DYNAMIC);
+    });
+
+    test("Writes blocked by readOnlyKeys are reported", () => {
+        const conf = new Configuration<TestConfig>(defaults, { readOnlyKeys: ["foo"] });
+        conf.setEnvironmentConfig({ foo: "envA" });
+
+        conf.setUserConfig({ foo: "userA", bar: 20 });
+        conf.setConfig("foo", "dynamicA");
+
+        const explanation = conf.explain("foo");
+        expect(explanation.value).toBe("envA");
+        expect(explanation.winningLevel).toBe(CONFIGLEVEL.ENVIRONMENT);
+        expect(explanation.readonly).toBe(true);
+        expect(explanation.blockedWrites.map(({ key, level, value }) => ({ key, level, value }))).toEqual([
+            { key: "foo", level: CONFIGLEVEL.USER, value: "userA" },
+            { key: "foo", level: CONFIGLEVEL.DYNAMIC, value: "dynamicA" },
+        ]);
+        expect(typeof explanation.blockedWrites[0].at).toBe("number");
+
+        expect(conf.explain("bar").blockedWrites).toEqual([]);
+    });
+
+    test("Explain all reports every key and can be serialized", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setConfig("bar", 20);
+
+        const report = conf.explainAll();
+        expect(report.map((e) => e.key)).toEqual(["foo", "bar", "http"]);
+        expect(report[1].winningLevel).toBe(CONFIGLEVEL.DYNAMIC);
+
+        const json = JSON.parse(JSON.stringify(report));
+        expect(json[0].levels[1]).toEqual({ level: CONFIGLEVEL.ENVIRONMENT, present: false });
+    });
+
+    test("Unknown keys throw", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        // @ts-expect-error unknown keys are rejected by the compiler too
+        expect(() => conf.explain("missing")).toThrowError(ERRORCODES.UNKNOWN_CONFIG_KEY);
+    });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IFlagDefinition } from "../interfaces/IFeatureFlag";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { compareVersions, fnv1a, rolloutBucket } from "../helpers/featureFlags";
+
+interface TestConfig extends IConfig {
+    newCheckout: boolean;
+    buttonColor: string;
+    title: string;
+}
+
+const defaults: TestConfig = { newCheckout: false, buttonColor: "blue", title: "Shop" };
+
+const newCheckout: IFlagDefinition = {
+    kind: "flag",
+    variants: { on: true, off: false },
+    defaultVariant: "off",
+    rules: [
+        { conditions: [{ attribute: "plan", operator: "equals", value: "beta" }], variant: "on" },
+        {
+            conditions: [
+                { attribute: "country", operator: "in", value: ["FI", "SE"] },
+                { attribute: "appVersion", operator: "versionGte", value: "2.10.0" },
+            ],
+            variant: "on",
+        },
+        { conditions: [], variant: "on", percentage: 20 },
+    ],
+};
+
+function flags(values: Record<string, IFlagDefinition>): Partial<TestConfig> {
+    return values as unknown as Partial<TestConfig>;
+}
+
+describe("Feature flags", () => {
+    test("Targeting rules select the variant and tell the reason", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig(flags({ newCheckout }));
+
+        expect(conf.evaluate("newCheckout", { userId: "u1", plan: "beta" })).toEqual({
+            key: "newCheckout",
+            value: true,
+            variant: "on",
+            reason: "RULE_MATCH",
+            ruleIndex: 0,
+        });
+        expect(conf.evaluate("newCheckout", { country: "FI", appVersion: "2.10.1" })).toEqual(
+            expect.objectContaining({ value: true, reason: "RULE_MATCH", ruleIndex: 1 })
+        );
+        expect(conf.evaluate("newCheckout", { country: "FI", appVersion: "2.9.9" })).toEqual({
+            key: "newCheckout",
+            value: false,
+            variant: "off",
+            reason: "DEFAULT",
+        });
+
+        expect(conf.evaluate("title")).toEqual({ key: "title", value: "Shop", variant: null, reason: "STATIC" });
+        // @ts-expect-error unknown keys are rejected by the compiler too
+        expect(() => conf.evaluate("missing")).toThrow(ERRORCODES.UNKNOWN_CONFIG_KEY);
+    });
+
+    test("Percentage rollouts are deterministic", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig(flags({ newCheckout }));
+
+        let enabled = 0;
+        for (let i = 0; i < 2000; i++) {
+            const result = conf.evaluate("newCheckout", { userId: `user-${i}` });
+            if (result.reason === "ROLLOUT") {
+                enabled++;
+                expect(result.value).toBe(true);
+            }
+            expect(conf.evaluate("newCheckout", { userId: `user-${i}` })).toEqual(result);
+        }
+        expect(enabled).toBeGreaterThan(300);
+        expect(enabled).toBeLessThan(500);
+
+        // Without the bucketing attribute the rollout does not apply
+        expect(conf.evaluate("newCheckout", { country: "US" }).reason).toBe("DEFAULT");
+    });
+
+    test("getValue uses the evaluation context set on the instance", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig(
+            flags({
+                buttonColor: {
+                    kind: "flag",
+                    variants: { control: "blue", green: "green" },
+                    defaultVariant: "control",
+                    rules: [
+                        { conditions: [{ attribute: "country", operator: "equals", value: "FI" }], variant: "green" },
+                    ],
+                },
+            })
+        );
+        expect(conf.getValue("buttonColor")).toBe("blue");
+
+        const cb = vi.fn();
+        conf.subscribe(["buttonColor"], cb);
+
+        conf.setEvaluationContext({ userId: "u1", country: "FI" });
+        expect(conf.getEvaluationContext()).toEqual({ userId: "u1", country: "FI" });
+        expect(conf.getValue("buttonColor")).toBe("green");
+        expect(cb).toHaveBeenCalledWith({
+            buttonColor: { value: "green", level: CONFIGLEVEL.BACKEND, readonly: false },
+        });
+
+        // Higher levels override the flag with a plain value
+        conf.setUserConfig({ buttonColor: "red" });
+        expect(conf.getValue("buttonColor")).toBe("red");
+        conf.setUserConfig({}, true);
+
+        conf.setEvaluationContext(null);
+        expect(conf.getValue("buttonColor")).toBe("blue");
+        expect(cb).toHaveBeenCalledTimes(4);
+    });
+
+    test("Invalid flag definitions and variants are rejected", () => {
+        const conf = new Configuration<TestConfig>(defaults, { schema: { buttonColor: { enum: ["blue", "green"] } } });
+
+        expect(() =>
+            conf.setBackendConfig(flags({ newCheckout: { ...newCheckout, defaultVariant: "maybe" } }))
+        ).toThrow('Unknown default variant "maybe"');
+        expect(() =>
+            conf.setBackendConfig(
+                flags({
+                    newCheckout: {
+                        ...newCheckout,
+                        rules: [
+                            {
+                                conditions: [{ attribute: "plan", operator: "like" as "equals", value: "x" }],
+                                variant: "on",
+                            },
+                        ],
+                    },
+                })
+            )
+        ).toThrow('Unknown operator "like"');
+        expect(() =>
+            conf.setBackendConfig(
+                flags({ buttonColor: { kind: "flag", variants: { a: "blue", b: "pink" }, defaultVariant: "a" } })
+            )
+        ).toThrow(ERRORCODES.VALIDATION_FAILED);
+    });
+
+    test("Hash and version helpers", () => {
+        expect(fnv1a("")).toBe(0x811c9dc5);
+        expect(fnv1a("a")).toBe(0xe40c292c);
+
+        const bucket = rolloutBucket("newCheckout", "user-1");
+        expect(bucket).toBeGreaterThanOrEqual(0);
+        expect(bucket).toBeLessThan(100);
+        expect(rolloutBucket("newCheckout", "user-1")).toBe(bucket);
+        expect(rolloutBucket("otherFlag", "user-1")).not.toBe(bucket);
+
+        expect(compareVersions("2.10.0", "2.9.1")).toBeGreaterThan(0);
+        expect(compareVersions("2.1", "2.1.0")).toBe(0);
+        expect(compareVersions("1.0.0-beta", "1.0.1")).toBeLessThan(0);
+    });
+});
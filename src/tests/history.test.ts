@@ -0,0 +1,186 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { MemoryAdapter } from "../persistence/MemoryAdapter";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    http: { timeoutMs: number; retries: number };
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10, http: { timeoutMs: 1000, retries: 1 } };
+
+describe("Change history", () => {
+    test("History is disabled by default", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setConfig("foo", "dynamicA");
+
+        expect(conf.getHistory()).toEqual([]);
+        expect(conf.canUndo()).toBe(false);
+        expect(conf.undo()).toBe(false);
+        expect(conf.getValue("foo")).toBe("dynamicA");
+    });
+
+    test("Writes to the USER and DYNAMIC levels are recorded with the source", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10 });
+        conf.setUserConfig({ bar: 20 }, false, "settings-page");
+        conf.setConfig("foo", "dynamicA");
+        conf.setBackendConfig({ bar: 30 });
+        conf.deleteConfig("foo", "reset");
+
+        expect(conf.getHistory()).toEqual([
+            expect.objectContaining({
+                key: "bar",
+                level: CONFIGLEVEL.USER,
+                oldValue: undefined,
+                newValue: 20,
+                source: "settings-page",
+                action: "write",
+            }),
+            expect.objectContaining({ key: "foo", level: CONFIGLEVEL.DYNAMIC, oldValue: undefined, newValue: "dynamicA" }),
+            expect.objectContaining({ key: "foo", oldValue: "dynamicA", newValue: undefined, source: "reset" }),
+        ]);
+        expect(conf.getHistory()[1].source).toBeUndefined();
+        expect(typeof conf.getHistory()[0].at).toBe("number");
+
+        expect(conf.getHistory("bar")).toHaveLength(1);
+        expect(conf.getHistory("http.timeoutMs")).toEqual([]);
+
+        // Writing the same value again is not a change
+        conf.setUserConfig({ bar: 20 });
+        expect(conf.getHistory()).toHaveLength(3);
+    });
+
+    test("Undo and redo restore the values of the level", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10 });
+        conf.setUserConfig({ bar: 20 });
+        conf.setUserConfig({ bar: 30 });
+        conf.setConfig("http.timeoutMs", 5000);
+
+        expect(conf.undo()).toBe(true);
+        expect(conf.getValue("http")).toEqual({ timeoutMs: 1000, retries: 1 });
+        expect(getValueInLevel(conf, "http", CONFIGLEVEL.DYNAMIC)).toBeUndefined();
+
+        expect(conf.undo()).toBe(true);
+        expect(conf.getValue("bar")).toBe(20);
+        expect(conf.canRedo()).toBe(true);
+
+        expect(conf.redo("user")).toBe(true);
+        expect(conf.getValue("bar")).toBe(30);
+        expect(conf.getHistory("bar").map((entry) => entry.action)).toEqual(["write", "write", "undo", "redo"]);
+        expect(conf.getHistory("bar")[3].source).toBe("user");
+
+        // A new write clears the redo stack
+        conf.undo();
+        conf.setConfig("foo", "dynamicA");
+        expect(conf.canRedo()).toBe(false);
+        expect(conf.redo()).toBe(false);
+
+        conf.undo();
+        conf.undo();
+        expect(conf.getValue("bar")).toBe(10);
+        expect(conf.getValue("foo")).toBe("defaultA");
+        expect(conf.undo()).toBe(false);
+    });
+
+    test("A batch is undone as a single change", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10 });
+        conf.batch(() => {
+            conf.setUserConfig({ bar: 20 });
+            conf.setConfig("foo", "dynamicA");
+        });
+
+        conf.undo();
+        expect(conf.getValue("bar")).toBe(10);
+        expect(conf.getValue("foo")).toBe("defaultA");
+
+        // A rolled back batch is not recorded
+        expect(() =>
+            conf.batch(() => {
+                conf.setConfig("foo", "dynamicB");
+                throw new Error("Failed");
+            })
+        ).toThrow("Failed");
+        expect(conf.getHistory("foo")).toHaveLength(2);
+        expect(conf.canRedo()).toBe(true);
+    });
+
+    test("History is bounded by the historyLimit option", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 2 });
+        conf.setConfig("bar", 1);
+        conf.setConfig("bar", 2);
+        conf.setConfig("bar", 3);
+
+        expect(conf.getHistory().map((entry) => entry.newValue)).toEqual([2, 3]);
+        expect(conf.undo()).toBe(true);
+        expect(conf.undo()).toBe(true);
+        expect(conf.undo()).toBe(false);
+        expect(conf.getValue("bar")).toBe(1);
+
+        conf.clearHistory();
+        expect(conf.getHistory()).toEqual([]);
+        expect(conf.canRedo()).toBe(false);
+    });
+
+    test("History entries are passed to the subscribers with the change records", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10 });
+        const cb = vi.fn();
+        conf.subscribeToChanges(["bar"], cb);
+
+        conf.setUserConfig({ bar: 20 }, false, "settings-page");
+        expect(cb.mock.calls[0][0][0].history).toEqual([
+            expect.objectContaining({ key: "bar", oldValue: undefined, newValue: 20, source: "settings-page" }),
+        ]);
+
+        conf.undo();
+        expect(cb.mock.calls[1][0][0]).toEqual(
+            expect.objectContaining({
+                oldValue: 20,
+                newValue: 10,
+                history: [expect.objectContaining({ action: "undo" })],
+            })
+        );
+    });
+
+    test("History subscribers are notified of writes that do not change the effective value", () => {
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10 });
+        const changes = vi.fn();
+        const history = vi.fn();
+        conf.setConfig("bar", 99);
+        conf.subscribeToChanges(["bar"], changes);
+        const unsubscribe = conf.subscribeToHistory(history);
+
+        // The DYNAMIC value still wins, so the effective value does not change
+        conf.setUserConfig({ bar: 20 }, false, "settings-page");
+
+        expect(changes).not.toHaveBeenCalled();
+        expect(history).toHaveBeenCalledTimes(1);
+        expect(history.mock.calls[0][0]).toEqual([
+            expect.objectContaining({ key: "bar", level: CONFIGLEVEL.USER, newValue: 20, source: "settings-page" }),
+        ]);
+
+        conf.batch(() => {
+            conf.setUserConfig({ foo: "userA" });
+            conf.setConfig("foo", "dynamicA");
+        });
+        expect(history).toHaveBeenCalledTimes(2);
+        expect(history.mock.calls[1][0]).toHaveLength(2);
+
+        unsubscribe();
+        conf.undo();
+        expect(history).toHaveBeenCalledTimes(2);
+    });
+
+    test("Hydrated user values are not recorded and undone user changes are persisted", () => {
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { foo: "storedA" } } });
+        const conf = new Configuration<TestConfig>(defaults, { historyLimit: 10, persistenceAdapter: adapter });
+        expect(conf.getHistory()).toEqual([]);
+
+        conf.setUserConfig({ foo: "userA" });
+        conf.undo();
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { foo: "storedA" } });
+    });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { ERRORCODES } from "../enums/ERRORCODES";
+
+interface HostConfig extends IConfig {
+    theme: string;
+}
+
+interface PaymentsConfig extends IConfig {
+    currency: string;
+    limit: number;
+}
+
+describe("Registry of named instances", () => {
+    beforeEach(() => {
+        Configuration.clearInstances();
+    });
+
+    test("Named singletons do not collide with the default instance", () => {
+        const host = new Configuration<HostConfig>({ theme: "light" }, { singleton: true });
+        const payments = new Configuration<PaymentsConfig>(
+            { currency: "EUR", limit: 100 },
+            { singleton: true, instanceName: "payments" }
+        );
+
+        expect(payments).not.toBe(host);
+        expect(Configuration.getInstance<HostConfig>()).toBe(host);
+        expect(Configuration.getInstance<PaymentsConfig>("payments")).toBe(payments);
+
+        // Constructing the same named singleton again returns the registered instance
+        const payments2 = new Configuration<PaymentsConfig>(
+            { currency: "USD", limit: 5 },
+            { singleton: true, instanceName: "payments" }
+        );
+        expect(payments2).toBe(payments);
+    });
+
+    test("Static methods access the instances by name", () => {
+        new Configuration<HostConfig>({ theme: "light" }, { singleton: true });
+        Configuration.getInstance<PaymentsConfig>({ currency: "EUR", limit: 100 }, { instanceName: "payments" });
+
+        expect(Configuration.setConfig<PaymentsConfig>("limit", 200, "payments")).toBe(true);
+        expect(Configuration.getValue<PaymentsConfig>("limit", "payments")).toBe(200);
+        expect(Configuration.getConfigs<PaymentsConfig>("payments").currency).toEqual(
+            expect.objectContaining({ value: "EUR" })
+        );
+
+        expect(Configuration.getValue<HostConfig>("theme")).toBe("light");
+        expect(() => Configuration.getValue<HostConfig>("theme", "unknown")).toThrow(
+            ERRORCODES.NO_CONFIGURATION_INSTANCE
+        );
+        expect(() => Configuration.getInstance("unknown")).toThrow(ERRORCODES.NO_CONFIGURATION_INSTANCE);
+    });
+
+    test("Existing instances can be registered by name", () => {
+        const conf = new Configuration<PaymentsConfig>({ currency: "EUR", limit: 100 });
+
+        expect(Configuration.register("payments", conf)).toBe(conf);
+        expect(Configuration.getInstance<PaymentsConfig>("payments")).toBe(conf);
+        expect(Configuration.getValue<PaymentsConfig>("currency", "payments")).toBe("EUR");
+
+        // Registering the same instance again is allowed, another instance is not
+        expect(() => Configuration.register("payments", conf)).not.toThrow();
+        const other = new Configuration<PaymentsConfig>({ currency: "USD", limit: 5 });
+        expect(() => Configuration.register("payments", other)).toThrow(ERRORCODES.INSTANCE_ALREADY_REGISTERED);
+
+        // An instance registered as "default" is the default entry
+        Configuration.register("default", other);
+        expect(Configuration.getValue<PaymentsConfig>("currency")).toBe("USD");
+    });
+
+    test("Clearing one instance does not affect the others", () => {
+        const host = Configuration.getInstance<HostConfig>({ theme: "light" });
+        const payments = Configuration.register(
+            "payments",
+            new Configuration<PaymentsConfig>({ currency: "EUR", limit: 1 })
+        );
+
+        Configuration.clearInstance("payments");
+        expect(() => Configuration.getInstance("payments")).toThrow(ERRORCODES.NO_CONFIGURATION_INSTANCE);
+        expect(Configuration.getInstance<HostConfig>()).toBe(host);
+
+        Configuration.register("payments", payments);
+        Configuration.clearInstance();
+        expect(() => Configuration.getInstance<HostConfig>()).toThrow(ERRORCODES.INSTANCE_NEEDS_DEFAULTCONFIGS);
+        expect(Configuration.getInstance<PaymentsConfig>("payments")).toBe(payments);
+    });
+});
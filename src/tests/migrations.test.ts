@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IConfigMigration } from "../interfaces/IMigrations";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { MemoryAdapter } from "../persistence/MemoryAdapter";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    theme: string;
+    fontSize: string;
+}
+
+const defaults: TestConfig = { theme: "light", fontSize: "medium" };
+
+// Version 1 renamed darkMode to theme, version 2 changed fontSize from a number to an enum
+const migrations: IConfigMigration[] = [
+    {
+        version: 2,
+        migrate: (values) => {
+            if (typeof values.fontSize === "number") {
+                values.fontSize = values.fontSize > 14 ? "large" : "medium";
+            }
+            return values;
+        },
+    },
+    {
+        version: 1,
+        migrate: ({ darkMode, ...values }) => {
+            return darkMode === undefined ? values : { ...values, theme: darkMode ? "dark" : "light" };
+        },
+    },
+];
+
+describe("Migrations of stored configuration", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test("Persisted values are migrated in order and saved with the current version", () => {
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { darkMode: true, fontSize: 16 } } });
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: adapter,
+            schemaVersion: 2,
+            migrations,
+        });
+
+        expect(conf.getValue("theme")).toBe("dark");
+        expect(conf.getValue("fontSize")).toBe("large");
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { theme: "dark", fontSize: "large" }, version: 2 });
+    });
+
+    test("Only the migrations newer than the stored version are applied", () => {
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { fontSize: 10 }, version: 1 } });
+        const migrate = vi.spyOn(migrations[1], "migrate");
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: adapter,
+            schemaVersion: 2,
+            migrations,
+        });
+
+        expect(conf.getValue("fontSize")).toBe("medium");
+        expect(migrate).not.toHaveBeenCalled();
+    });
+
+    test("Failing migrations are reported and the stored values are not applied", () => {
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { theme: "dark" } } });
+        const onPersistenceError = vi.fn();
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: adapter,
+            onPersistenceError,
+            schemaVersion: 1,
+            migrations: [
+                {
+                    version: 1,
+                    migrate: () => {
+                        throw new Error("Broken");
+                    },
+                },
+            ],
+        });
+
+        expect(conf.getValue("theme")).toBe("light");
+        expect(onPersistenceError).toHaveBeenCalledTimes(1);
+        expect(onPersistenceError.mock.calls[0][0].message).toContain(ERRORCODES.MIGRATION_FAILED);
+    });
+
+    test("Stale keys are pruned from stored values and setters", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { theme: "dark", removed: 1 } } });
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter });
+
+        expect(getValueInLevel(conf, "removed", CONFIGLEVEL.USER)).toBeUndefined();
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { theme: "dark" } });
+        expect(warn).not.toHaveBeenCalled();
+
+        expect(conf.setUserConfig({ fontSize: "large", unknown: "x" } as Partial<TestConfig>)).toBe(false);
+        expect(conf.getValue("fontSize")).toBe("large");
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.USER)).not.toHaveProperty("unknown");
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain(ERRORCODES.UNKNOWN_CONFIG_KEY);
+    });
+
+    test("Snapshots are migrated when imported", () => {
+        const old = new Configuration<TestConfig>(defaults, { schemaVersion: 1 }).exportSnapshot();
+        expect(old.schemaVersion).toBe(1);
+        old.levels.user = { theme: "dark", fontSize: 18 };
+
+        const conf = new Configuration<TestConfig>(defaults, { schemaVersion: 2, migrations });
+        conf.importSnapshot(old);
+        expect(conf.getValue("fontSize")).toBe("large");
+        expect(conf.exportSnapshot().schemaVersion).toBe(2);
+    });
+});
+
+describe("Deprecated keys", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test("Deprecated keys read and write the replacement with a single warning", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const conf = new Configuration<TestConfig>(defaults, {
+            deprecatedKeys: { colorScheme: { replacement: "theme", message: "Removed in 1.0." } },
+        });
+
+        // @ts-expect-error deprecated keys are not part of the typed keys
+        expect(conf.getValue("colorScheme")).toBe("light");
+        // @ts-expect-error deprecated keys are not part of the typed keys
+        expect(conf.setConfig("colorScheme", "dark")).toBe(true);
+        expect(conf.getValue("theme")).toBe("dark");
+        expect(conf.setUserConfig({ colorScheme: "blue" } as Partial<TestConfig>)).toBe(true);
+        expect(getValueInLevel(conf, "theme", CONFIGLEVEL.USER)).toBe("blue");
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toBe(
+            `${ERRORCODES.DEPRECATED_KEY} (key "colorScheme", Use "theme" instead. Removed in 1.0.)`
+        );
+    });
+
+    test("Writing a deprecated key together with its replacement keeps the replacement and succeeds", () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const conf = new Configuration<TestConfig>(defaults, {
+            deprecatedKeys: { colorScheme: { replacement: "theme" } },
+        });
+
+        expect(conf.setUserConfig({ colorScheme: "blue", theme: "dark" } as Partial<TestConfig>)).toBe(true);
+        expect(getValueInLevel(conf, "theme", CONFIGLEVEL.USER)).toBe("dark");
+    });
+
+    test("Stored values of deprecated keys are renamed", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { colorScheme: "dark" } } });
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: adapter,
+            deprecatedKeys: { colorScheme: { replacement: "theme" } },
+        });
+
+        expect(conf.getValue("theme")).toBe("dark");
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { theme: "dark" } });
+        expect(warn).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig, IConfigurationObject } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { isConfigurationObject } from "../helpers/configurationObjects";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    http: { retries: number; timeoutMs: number; headers: { accept: string } };
+    origins: string[];
+    foo: string;
+}
+
+const defaults: TestConfig = {
+    http: { retries: 3, timeoutMs: 500, headers: { accept: "json" } },
+    origins: ["https://a.example"],
+    foo: "value",
+};
+
+describe("Nested objects and arrays", () => {
+    test("Objects and arrays are stored as values and not as configuration objects", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        expect(conf.getValue("http")).toEqual({ retries: 3, timeoutMs: 500, headers: { accept: "json" } });
+        expect(conf.getValue("origins")).toEqual(["https://a.example"]);
+
+        conf.setUserConfig({ origins: ["https://b.example", "https://c.example"] });
+        expect(conf.getValue("origins")).toEqual(["https://b.example", "https://c.example"]);
+        expect(getValueInLevel(conf, "origins", CONFIGLEVEL.DEFAULT)).toEqual(["https://a.example"]);
+    });
+
+    test("User data that looks like a configuration object is kept as data", () => {
+        interface WrapperConfig extends IConfig {
+            data: { value: string; level: string };
+        }
+        const conf = new Configuration<WrapperConfig>({ data: { value: "a", level: "b" } });
+
+        conf.setConfig("data", { value: "c", level: "d" });
+
+        expect(conf.getValue("data")).toEqual({ value: "c", level: "d" });
+        expect((conf.getConfig("data") as IConfigurationObject).level).toBe(CONFIGLEVEL.DYNAMIC);
+        expect(isConfigurationObject(conf.getConfig("data"))).toBe(true);
+        expect(isConfigurationObject(conf.getValue("data"))).toBe(false);
+    });
+
+    test("Nested values can be read with dot paths", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        expect(conf.getValue("http.timeoutMs")).toBe(500);
+        expect(conf.getValue("http.headers.accept")).toBe("json");
+        expect(conf.getValue("origins.0")).toBe("https://a.example");
+        // @ts-expect-error unknown paths are rejected by the compiler too
+        expect(conf.getValue("http.missing")).toBeUndefined();
+        expect(conf.getConfig("http.retries")).toEqual({
+            value: 3,
+            level: CONFIGLEVEL.DEFAULT,
+            readonly: false,
+            writableLevels: [CONFIGLEVEL.ENVIRONMENT, CONFIGLEVEL.BACKEND, CONFIGLEVEL.USER, CONFIGLEVEL.DYNAMIC],
+        });
+    });
+
+    test("Higher levels override single nested values and levels are deep merged", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        conf.setEnvironmentConfig({ "http.timeoutMs": 1000 });
+        conf.setUserConfig({ http: { headers: { accept: "xml" } } } as Partial<TestConfig>);
+        conf.setConfig("http.retries", 5);
+
+        expect(conf.getValue("http")).toEqual({ retries: 5, timeoutMs: 1000, headers: { accept: "xml" } });
+        expect(getValueInLevel(conf, "http", CONFIGLEVEL.ENVIRONMENT)).toEqual({ timeoutMs: 1000 });
+
+        expect((conf.getConfig("http") as IConfigurationObject).level).toBe(CONFIGLEVEL.DYNAMIC);
+        expect((conf.getConfig("http.timeoutMs") as IConfigurationObject).level).toBe(CONFIGLEVEL.ENVIRONMENT);
+        expect((conf.getConfig("http.headers.accept") as IConfigurationObject).level).toBe(CONFIGLEVEL.USER);
+
+        conf.deleteConfig("http.retries");
+        expect(conf.getValue("http.retries")).toBe(3);
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.DYNAMIC).http).toBeUndefined();
+    });
+
+    test("Setting an unknown nested path throws an error", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        // @ts-expect-error unknown paths are rejected by the compiler too
+        expect(() => conf.setConfig("http.unknown", 1)).toThrowError(ERRORCODES.UNKNOWN_CONFIG_KEY);
+    });
+
+    test("Returned values can not be used to mutate the configuration", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const origins = ["https://b.example"];
+
+        conf.setConfig("origins", origins);
+        origins.push("https://c.example");
+
+        expect(conf.getValue("origins")).toEqual(["https://b.example"]);
+        expect(Object.isFrozen(conf.getValue("origins"))).toBe(true);
+        expect(defaults.origins).toEqual(["https://a.example"]);
+    });
+
+    test("Subscribers of the parent key are notified when a nested value changes", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        const parentCb = vi.fn();
+        const pathCb = vi.fn();
+        conf.subscribe(["http"], parentCb);
+        conf.subscribe(["http.timeoutMs"], pathCb);
+
+        conf.setConfig("http.timeoutMs", 2000);
+
+        expect(parentCb).toHaveBeenCalledTimes(1);
+        expect(parentCb).toHaveBeenCalledWith({
+            http: {
+                value: { retries: 3, timeoutMs: 2000, headers: { accept: "json" } },
+                level: CONFIGLEVEL.DYNAMIC,
+                readonly: false,
+            },
+        });
+        expect(pathCb).toHaveBeenCalledWith({
+            "http.timeoutMs": { value: 2000, level: CONFIGLEVEL.DYNAMIC, readonly: false },
+        });
+    });
+
+    test("Schema rules can target nested paths", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            schema: {
+                http: { type: "object" },
+                "http.timeoutMs": { type: "number", max: 10000 },
+                origins: { type: "array", max: 2 },
+            },
+        });
+
+        expect(() => conf.setConfig("http.timeoutMs", 20000)).toThrowError("Value must be at most 10000");
+        expect(() => conf.setUserConfig({ http: { timeoutMs: 20000 } } as Partial<TestConfig>)).toThrowError(
+            'key "http.timeoutMs"'
+        );
+        expect(() => conf.setUserConfig({ origins: ["a", "b", "c"] })).toThrowError("Length must be at most 2");
+    });
+});
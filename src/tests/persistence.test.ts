@@ -0,0 +1,278 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { IPersistedUserConfig, IPersistenceAdapter } from "../interfaces/IPersistenceAdapter";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { IndexedDBAdapter } from "../persistence/IndexedDBAdapter";
+import { MemoryAdapter } from "../persistence/MemoryAdapter";
+import { LocalStorageAdapter, SessionStorageAdapter, WebStorageAdapter } from "../persistence/WebStorageAdapter";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10 };
+
+interface IFakeRequest {
+    result?: unknown;
+    error?: unknown;
+    onsuccess?: () => void;
+    onerror?: () => void;
+    onupgradeneeded?: () => void;
+}
+
+/**
+ * In-memory stand-in for IndexedDB. Requests complete asynchronously like in a browser.
+ * @param failedOpens How many times opening the database fails before it succeeds
+ */
+function createFakeIndexedDB(failedOpens = 0) {
+    const stores = new Map<string, Map<string, unknown>>();
+
+    function request(run: () => unknown): IFakeRequest {
+        const req: IFakeRequest = {};
+        setTimeout(() => {
+            try {
+                req.result = run();
+                req.onsuccess?.();
+            } catch (error) {
+                req.error = error;
+                req.onerror?.();
+            }
+        }, 0);
+        return req;
+    }
+
+    const database = {
+        createObjectStore: (name: string) => stores.set(name, new Map()),
+        transaction: (name: string) => {
+            const store = stores.get(name) as Map<string, unknown>;
+            return {
+                objectStore: () => ({
+                    get: (key: string) => request(() => store.get(key)),
+                    put: (value: unknown, key: string) => request(() => store.set(key, structuredClone(value))),
+                    delete: (key: string) => request(() => store.delete(key)),
+                }),
+            };
+        },
+    };
+
+    let opens = 0;
+    const open = vi.fn(() => {
+        const req: IFakeRequest = {};
+        setTimeout(() => {
+            opens++;
+            if (opens <= failedOpens) {
+                req.error = new DOMException("The database is blocked", "UnknownError");
+                req.onerror?.();
+                return;
+            }
+            req.result = database;
+            if (stores.size === 0) {
+                req.onupgradeneeded?.();
+            }
+            req.onsuccess?.();
+        }, 0);
+        return req;
+    });
+
+    return { factory: { open } as unknown as IDBFactory, open, stores };
+}
+
+describe("Persistence of the user level", () => {
+    beforeEach(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("User configuration is hydrated from the adapter on construction", () => {
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { foo: "storedA" } } });
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter });
+
+        expect(conf.getValue("foo")).toBe("storedA");
+        expect(getValueInLevel(conf, "foo", CONFIGLEVEL.USER)).toBe("storedA");
+    });
+
+    test("User configuration is saved on every change with the namespace in the key", () => {
+        const adapter = new MemoryAdapter();
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: adapter,
+            persistenceNamespace: "myapp",
+        });
+
+        conf.setUserConfig({ bar: 20 });
+        expect(adapter.load("myapp:user")).toEqual({ values: { bar: 20 } });
+
+        conf.setUserConfig({ foo: "userA" });
+        expect(adapter.load("myapp:user")).toEqual({ values: { foo: "userA", bar: 20 } });
+
+        // Other levels are not persisted
+        conf.setConfig("foo", "dynamicA");
+        conf.setBackendConfig({ bar: 30 });
+        expect(adapter.load("myapp:user")).toEqual({ values: { foo: "userA", bar: 20 } });
+    });
+
+    test("Writes are debounced", async () => {
+        vi.useFakeTimers();
+        const adapter = new MemoryAdapter();
+        const save = vi.spyOn(adapter, "save");
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: adapter,
+            persistenceDebounceMs: 100,
+        });
+
+        conf.setUserConfig({ bar: 1 });
+        conf.setUserConfig({ bar: 2 });
+        conf.setUserConfig({ bar: 3 });
+        expect(save).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(save).toHaveBeenCalledTimes(1);
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { bar: 3 } });
+
+        conf.setUserConfig({ bar: 4 });
+        await conf.flushPersistence();
+        expect(save).toHaveBeenCalledTimes(2);
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { bar: 4 } });
+    });
+
+    test("Asynchronous adapters hydrate after construction and do not override newer values", async () => {
+        const stored: IPersistedUserConfig = { values: { foo: "storedA", bar: 99 } };
+        const adapter: IPersistenceAdapter = {
+            load: () => Promise.resolve(stored),
+            save: vi.fn(() => Promise.resolve()),
+            remove: () => Promise.resolve(),
+        };
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter });
+
+        expect(conf.getValue("foo")).toBe("defaultA");
+        conf.setUserConfig({ bar: 20 });
+
+        await conf.waitForHydration();
+
+        expect(conf.getValue("foo")).toBe("storedA");
+        expect(conf.getValue("bar")).toBe(20);
+    });
+
+    test("localStorage and sessionStorage adapters store JSON", () => {
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: new LocalStorageAdapter() });
+        conf.setUserConfig({ foo: "localA" });
+        expect(JSON.parse(localStorage.getItem("hcconfig:user") as string)).toEqual({ values: { foo: "localA" } });
+
+        const conf2 = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: new SessionStorageAdapter(),
+            persistenceNamespace: "session",
+        });
+        conf2.setUserConfig({ bar: 5 });
+        expect(JSON.parse(sessionStorage.getItem("session:user") as string)).toEqual({ values: { bar: 5 } });
+
+        const conf3 = new Configuration<TestConfig>(defaults, { persistenceAdapter: new LocalStorageAdapter() });
+        expect(conf3.getValue("foo")).toBe("localA");
+    });
+
+    test("Corrupt storage is reported and discarded", () => {
+        localStorage.setItem("hcconfig:user", "{not json");
+        const onPersistenceError = vi.fn();
+
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: new LocalStorageAdapter(),
+            onPersistenceError,
+        });
+
+        expect(conf.getValue("foo")).toBe("defaultA");
+        expect(onPersistenceError).toHaveBeenCalledTimes(1);
+        expect(onPersistenceError.mock.calls[0][0]).toBeInstanceOf(ConfigurationError);
+        expect(onPersistenceError.mock.calls[0][0].message).toBe(ERRORCODES.PERSISTENCE_CORRUPT_DATA);
+        expect(localStorage.getItem("hcconfig:user")).toBeNull();
+
+        localStorage.setItem("hcconfig:user", JSON.stringify({ foo: "missing values" }));
+        new Configuration<TestConfig>(defaults, { persistenceAdapter: new LocalStorageAdapter(), onPersistenceError });
+        expect(onPersistenceError).toHaveBeenCalledTimes(2);
+    });
+
+    test("Quota exceeded errors are reported and the value is kept in memory", () => {
+        const fullStorage = {
+            getItem: () => null,
+            setItem: () => {
+                throw new DOMException("Storage is full", "QuotaExceededError");
+            },
+            removeItem: () => {},
+        } as unknown as Storage;
+        const onPersistenceError = vi.fn();
+
+        const conf = new Configuration<TestConfig>(defaults, {
+            persistenceAdapter: new WebStorageAdapter(() => fullStorage),
+            onPersistenceError,
+        });
+
+        expect(() => conf.setUserConfig({ foo: "userA" })).not.toThrow();
+        expect(conf.getValue("foo")).toBe("userA");
+
+        expect(onPersistenceError).toHaveBeenCalledTimes(1);
+        expect(onPersistenceError.mock.calls[0][0].message).toBe(ERRORCODES.PERSISTENCE_QUOTA_EXCEEDED);
+    });
+
+    test("IndexedDB adapter loads, saves and removes the user configuration", async () => {
+        const { factory, stores } = createFakeIndexedDB();
+        const adapter = new IndexedDBAdapter("app", "settings", () => factory);
+
+        expect(await adapter.load("hcconfig:user")).toBeNull();
+
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter });
+        await conf.waitForHydration();
+        conf.setUserConfig({ foo: "userA" });
+        await vi.waitFor(() => expect(stores.get("settings")?.get("hcconfig:user")).toBeDefined());
+        expect(await adapter.load("hcconfig:user")).toEqual({ values: { foo: "userA" } });
+
+        const conf2 = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter });
+        expect(conf2.getValue("foo")).toBe("defaultA");
+        await conf2.waitForHydration();
+        expect(conf2.getValue("foo")).toBe("userA");
+
+        await adapter.remove("hcconfig:user");
+        expect(await adapter.load("hcconfig:user")).toBeNull();
+    });
+
+    test("IndexedDB adapter retries opening the database after a failure", async () => {
+        const { factory, open } = createFakeIndexedDB(1);
+        const adapter = new IndexedDBAdapter("app", "settings", () => factory);
+
+        const error = await adapter.load("hcconfig:user").catch((e: ConfigurationError) => e);
+        expect(error).toBeInstanceOf(ConfigurationError);
+        expect((error as ConfigurationError).message).toBe(ERRORCODES.PERSISTENCE_LOAD_FAILED);
+
+        expect(await adapter.load("hcconfig:user")).toBeNull();
+        await adapter.save("hcconfig:user", { values: { bar: 5 } });
+        expect(await adapter.load("hcconfig:user")).toEqual({ values: { bar: 5 } });
+        expect(open).toHaveBeenCalledTimes(2);
+
+        const unavailable = new IndexedDBAdapter("app", "settings", () => undefined);
+        const saveError = await unavailable.save("hcconfig:user", { values: {} }).catch((e: ConfigurationError) => e);
+        expect((saveError as ConfigurationError).message).toBe(ERRORCODES.PERSISTENCE_NOT_AVAILABLE);
+    });
+
+    test("Corrupt IndexedDB data is reported and discarded", async () => {
+        const { factory } = createFakeIndexedDB();
+        const adapter = new IndexedDBAdapter("app", "settings", () => factory);
+        await adapter.save("hcconfig:user", { foo: "missing values" } as unknown as IPersistedUserConfig);
+        const onPersistenceError = vi.fn();
+
+        const conf = new Configuration<TestConfig>(defaults, { persistenceAdapter: adapter, onPersistenceError });
+        await conf.waitForHydration();
+
+        expect(conf.getValue("foo")).toBe("defaultA");
+        expect(onPersistenceError).toHaveBeenCalledTimes(1);
+        expect(onPersistenceError.mock.calls[0][0].message).toBe(ERRORCODES.PERSISTENCE_CORRUPT_DATA);
+        await vi.waitFor(async () => expect(await adapter.load("hcconfig:user")).toBeNull());
+    });
+});
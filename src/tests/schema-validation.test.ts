@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ConfigSchema } from "../interfaces/IConfigSchema";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    mode: string;
+    ok: boolean;
+}
+
+const schema: ConfigSchema<TestConfig> = {
+    foo: { type: "string", min: 2, max: 10, pattern: /^[a-z]+$/ },
+    bar: { type: "number", min: 0, max: 100 },
+    mode: { type: "string", enum: ["light", "dark"] },
+    ok: { type: "boolean", validator: (val) => (val === true ? "ok can not be enabled" : true) },
+};
+
+const defaults: TestConfig = { foo: "value", bar: 10, mode: "light", ok: false };
+
+describe("Schema validation", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test("Valid values are accepted on every level", () => {
+        const conf = new Configuration<TestConfig>(defaults, { schema });
+
+        conf.setEnvironmentConfig({ foo: "env" });
+        conf.setBackendConfig({ bar: 50 });
+        conf.setUserConfig({ mode: "dark" });
+        expect(conf.setConfig("bar", 99)).toBeTruthy();
+
+        expect(conf.getValue("foo")).toBe("env");
+        expect(conf.getValue("bar")).toBe(99);
+        expect(conf.getValue("mode")).toBe("dark");
+    });
+
+    test("Invalid default values throw during construction", () => {
+        expect(() => {
+            new Configuration<TestConfig>({ ...defaults, bar: 1000 }, { schema });
+        }).toThrowError(ERRORCODES.VALIDATION_FAILED);
+    });
+
+    test("Invalid values are rejected with a structured error and nothing is applied", () => {
+        const conf = new Configuration<TestConfig>(defaults, { schema });
+
+        let error: ConfigurationError | null = null;
+        try {
+            conf.setBackendConfig({ foo: "backend", bar: "42" as unknown as number });
+        } catch (e) {
+            error = e as ConfigurationError;
+        }
+
+        expect(error).toBeInstanceOf(ConfigurationError);
+        expect(error?.details?.key).toBe("bar");
+        expect(error?.details?.level).toBe(CONFIGLEVEL.BACKEND);
+        expect(error?.details?.value).toBe("42");
+        expect(error?.details?.reason).toBe("Expected type number but got string");
+
+        expect(conf.getValue("foo")).toBe("value");
+        expect(conf.getValue("bar")).toBe(10);
+    });
+
+    test("Each rule is enforced", () => {
+        const conf = new Configuration<TestConfig>(defaults, { schema });
+
+        expect(() => conf.setConfig("foo", "a")).toThrowError("Length must be at least 2");
+        expect(() => conf.setConfig("foo", "abcdefghijk")).toThrowError("Length must be at most 10");
+        expect(() => conf.setConfig("foo", "ABC")).toThrowError("does not match pattern");
+        expect(() => conf.setConfig("bar", -1)).toThrowError("Value must be at least 0");
+        expect(() => conf.setUserConfig({ mode: "blue" })).toThrowError("Value must be one of: light, dark");
+        expect(() => conf.setEnvironmentConfig({ ok: true })).toThrowError("ok can not be enabled");
+    });
+
+    test("With the warn policy invalid values are dropped and a warning is logged", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const conf = new Configuration<TestConfig>(defaults, { schema, validationPolicy: "warn" });
+
+        conf.setUserConfig({ foo: "user", bar: 500 });
+
+        expect(conf.getValue("foo")).toBe("user");
+        expect(conf.getValue("bar")).toBe(10);
+        expect(warn).toHaveBeenCalledTimes(1);
+
+        expect(conf.setConfig("mode", "blue")).toBeFalsy();
+        expect(conf.getValue("mode")).toBe("light");
+        expect(warn).toHaveBeenCalledTimes(2);
+    });
+
+    test("Values can be validated without writing them", () => {
+        const conf = new Configuration<TestConfig>(defaults, { schema });
+
+        expect(conf.validate("bar", 50)).toBeNull();
+        expect(conf.validate("bar", 500)).toBe("Value must be at most 100");
+        expect(conf.validate("ok", true)).toBe("ok can not be enabled");
+        expect(conf.getValue("bar")).toBe(10);
+        expect(new Configuration<TestConfig>(defaults).validate("bar", 500)).toBeNull();
+    });
+
+    test("With the warn policy invalid defaults are reported but kept", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const conf = new Configuration<TestConfig>({ ...defaults, mode: "blue" }, { schema, validationPolicy: "warn" });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(conf.getValue("mode")).toBe("blue");
+    });
+});
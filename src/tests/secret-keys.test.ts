@@ -0,0 +1,136 @@
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { IFlagDefinition } from "../interfaces/IFeatureFlag";
+import { ConfigurationError } from "../ConfigurationError";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { MemoryAdapter } from "../persistence/MemoryAdapter";
+
+interface TestConfig extends IConfig {
+    apiToken: string;
+    credentials: { user: string; password: string };
+    title: string;
+}
+
+const defaults: TestConfig = { apiToken: "", credentials: { user: "", password: "" }, title: "App" };
+
+function createConfiguration(options = {}): Configuration<TestConfig> {
+    const conf = new Configuration<TestConfig>(defaults, { secretKeys: ["apiToken", "credentials"], ...options });
+    conf.setEnvironmentConfig({ apiToken: "token-123", credentials: { user: "admin", password: "hunter2" } });
+    return conf;
+}
+
+describe("Secret keys", () => {
+    test("Secret values are only readable with getSecret", () => {
+        const conf = createConfiguration();
+
+        expect(conf.getValue("apiToken")).toBe("***");
+        expect(conf.getValue("credentials.password")).toBe("***");
+        expect(conf.getSecret("apiToken")).toBe("token-123");
+        expect(conf.getSecret("credentials.password")).toBe("hunter2");
+        expect(conf.getValue("title")).toBe("App");
+
+        expect(conf.getConfig("apiToken")).toEqual(
+            expect.objectContaining({ value: "***", level: CONFIGLEVEL.ENVIRONMENT })
+        );
+        expect(conf.getConfigs().apiToken).toEqual(expect.objectContaining({ value: "***" }));
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.ENVIRONMENT).credentials).toEqual(
+            expect.objectContaining({ value: "***" })
+        );
+        expect(conf.getConfigsForLevel(CONFIGLEVEL.DEFAULT).apiToken).toEqual(expect.objectContaining({ value: "***" }));
+    });
+
+    test("Secrets are redacted in JSON, explain and snapshots", () => {
+        const conf = createConfiguration();
+
+        expect(JSON.parse(JSON.stringify(conf))).toEqual({ apiToken: "***", credentials: "***", title: "App" });
+
+        const explanation = conf.explain("apiToken");
+        expect(explanation.value).toBe("***");
+        expect(explanation.levels.map((level) => level.value)).toEqual(["***", "***", undefined, undefined, undefined]);
+
+        const snapshot = conf.exportSnapshot();
+        expect(snapshot.levels.environment).toEqual({ apiToken: "***", credentials: "***" });
+        expect(JSON.stringify(snapshot)).not.toContain("token-123");
+
+        // Importing a redacted snapshot keeps the current secrets
+        conf.setEnvironmentConfig({ title: "Changed" });
+        conf.importSnapshot(snapshot);
+        expect(conf.getValue("title")).toBe("App");
+        expect(conf.getSecret("apiToken")).toBe("token-123");
+    });
+
+    test("Variants of secret flags are redacted in evaluate", () => {
+        const conf = createConfiguration();
+        const definition: IFlagDefinition = {
+            kind: "flag",
+            variants: { a: "SECRET-A", b: "SECRET-B" },
+            defaultVariant: "a",
+        };
+        conf.setBackendConfig({ apiToken: definition } as unknown as Partial<TestConfig>);
+
+        const evaluation = conf.evaluate("apiToken", {});
+        expect(evaluation).toMatchObject({ value: "***", variant: "a", reason: "DEFAULT" });
+        expect(conf.getSecret("apiToken")).toBe("SECRET-A");
+    });
+
+    test("Secrets are redacted in errors, blocked writes, change records and history", () => {
+        const onBlockedWrite = vi.fn();
+        const conf = createConfiguration({
+            schema: { apiToken: { pattern: /^(token-.*)?$/ } },
+            writePolicies: { apiToken: [CONFIGLEVEL.ENVIRONMENT] },
+            onBlockedWrite,
+            historyLimit: 10,
+        });
+        const cb = vi.fn();
+        const changesCb = vi.fn();
+        conf.subscribe(["apiToken"], cb);
+        conf.subscribeToChanges([], changesCb);
+
+        try {
+            conf.setEnvironmentConfig({ apiToken: "abc" });
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ConfigurationError);
+            expect((error as ConfigurationError).message).toContain(ERRORCODES.VALIDATION_FAILED);
+            expect((error as ConfigurationError).details?.value).toBe("***");
+        }
+
+        conf.setUserConfig({ apiToken: "user-token" });
+        expect(onBlockedWrite).toHaveBeenCalledWith(expect.objectContaining({ key: "apiToken", value: "***" }));
+
+        conf.setEnvironmentConfig({ apiToken: "token-456" });
+        expect(cb).toHaveBeenCalledWith({
+            apiToken: { value: "***", level: CONFIGLEVEL.ENVIRONMENT, readonly: false },
+        });
+        expect(changesCb).toHaveBeenCalledWith([
+            expect.objectContaining({ key: "apiToken", oldValue: "***", newValue: "***" }),
+        ]);
+
+        conf.setConfig("credentials", { user: "other", password: "secret" });
+        expect(conf.getHistory("credentials")).toEqual([
+            expect.objectContaining({ oldValue: undefined, newValue: "***" }),
+        ]);
+        conf.undo();
+        expect(conf.getSecret("credentials")).toEqual({ user: "admin", password: "hunter2" });
+    });
+
+    test("Secrets are not persisted or sent to the backend", async () => {
+        const adapter = new MemoryAdapter({ "hcconfig:user": { values: { apiToken: "stored", title: "Stored" } } });
+        const backendUpdateFn = vi.fn(() => Promise.resolve({}));
+        const conf = createConfiguration({ persistenceAdapter: adapter, backendUpdateFn });
+
+        expect(conf.getSecret("apiToken")).toBe("token-123");
+        expect(conf.getValue("title")).toBe("Stored");
+
+        conf.setUserConfig({ apiToken: "user-token" });
+        expect(conf.getSecret("apiToken")).toBe("user-token");
+        expect(adapter.load("hcconfig:user")).toEqual({ values: { title: "Stored" } });
+
+        await conf.startBackendAutoUpdate();
+        conf.stopBackendAutoUpdate();
+        const currentConfig = (backendUpdateFn.mock.calls[0] as unknown[])[0] as Partial<TestConfig>;
+        expect(Object.keys(currentConfig)).toEqual(["title"]);
+    });
+});
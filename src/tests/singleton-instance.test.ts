@@ -73,7 +73,7 @@ describe("Singleton instance of Configuration", () => {
     test("Subscribe to changes on singleton instance directly", () => {
         new Configuration<TestConfig>({ foo: "defaultA", bar: 10 }, { singleton: true });
 
-        const cb = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cb = vi.fn();
 
         const unsubscribe = Configuration.getInstance<TestConfig>().subscribe(["foo"], cb);
 
@@ -0,0 +1,135 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, test, vi } from "vitest";
+import { IConfig } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { ConfigurationError } from "../ConfigurationError";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ERRORCODES } from "../enums/ERRORCODES";
+import { VERSION } from "../version";
+import { getValueInLevel } from "./test-tools";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    http: { timeoutMs: number; retries: number };
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10, http: { timeoutMs: 1000, retries: 1 } };
+
+function createConfiguration(): Configuration<TestConfig> {
+    const conf = new Configuration<TestConfig>(defaults, { schema: { bar: { type: "number", min: 0 } } });
+    conf.setEnvironmentConfig({ "http.timeoutMs": 2000 } as Partial<TestConfig>);
+    conf.setBackendConfig({ bar: 20 });
+    conf.setUserConfig({ foo: "userA" });
+    conf.setConfig("bar", 30);
+    return conf;
+}
+
+describe("Snapshots", () => {
+    test("Snapshot contains the raw values of every level and metadata", () => {
+        const snapshot = createConfiguration().exportSnapshot();
+
+        expect(snapshot).toEqual({
+            format: "hcconfig-snapshot",
+            formatVersion: 1,
+            libraryVersion: VERSION,
+            createdAt: expect.any(String),
+            levels: {
+                default: { foo: "defaultA", bar: 10, http: { timeoutMs: 1000, retries: 1 } },
+                environment: { http: { timeoutMs: 2000 } },
+                backend: { bar: 20 },
+                user: { foo: "userA" },
+                dynamic: { bar: 30 },
+            },
+        });
+        expect(Object.keys(snapshot.levels)).toEqual(["default", "environment", "backend", "user", "dynamic"]);
+        expect(Number.isNaN(Date.parse(snapshot.createdAt))).toBe(false);
+    });
+
+    test("Library version matches the package version", () => {
+        const pkg = JSON.parse(readFileSync(new URL("../../package.json", import.meta.url), "utf-8"));
+        expect(VERSION).toBe(pkg.version);
+    });
+
+    test("Importing a snapshot restores all levels and notifies the listeners once", () => {
+        const json = JSON.stringify(createConfiguration().exportSnapshot());
+
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig({ foo: "backendB" });
+        const cb = vi.fn();
+        conf.subscribeToChanges([], cb);
+
+        expect(conf.importSnapshot(json)).toBe(true);
+
+        expect(conf.getValue("foo")).toBe("userA");
+        expect(conf.getValue("bar")).toBe(30);
+        expect(conf.getValue("http")).toEqual({ timeoutMs: 2000, retries: 1 });
+        expect(getValueInLevel(conf, "foo", CONFIGLEVEL.BACKEND)).toBeUndefined();
+
+        expect(cb).toHaveBeenCalledTimes(1);
+        expect(cb.mock.calls[0][0].map((change: { key: string }) => change.key)).toEqual(["foo", "bar", "http"]);
+    });
+
+    test("Only the selected levels are restored", () => {
+        const snapshot = createConfiguration().exportSnapshot();
+        const conf = new Configuration<TestConfig>(defaults);
+        conf.setBackendConfig({ foo: "backendB" });
+
+        conf.importSnapshot(snapshot, { levels: [CONFIGLEVEL.USER, CONFIGLEVEL.DYNAMIC] });
+
+        expect(getValueInLevel(conf, "foo", CONFIGLEVEL.BACKEND)).toBe("backendB");
+        expect(getValueInLevel(conf, "foo", CONFIGLEVEL.USER)).toBe("userA");
+        expect(getValueInLevel(conf, "bar", CONFIGLEVEL.DYNAMIC)).toBe(30);
+        expect(conf.getValue("http")).toEqual({ timeoutMs: 1000, retries: 1 });
+
+        expect(() => conf.importSnapshot(snapshot, { levels: [CONFIGLEVEL.DEFAULT] })).toThrow(
+            ERRORCODES.DEFAULT_LEVEL_IS_IMMUTABLE
+        );
+        expect(() => conf.importSnapshot(snapshot, { levels: ["custom"] })).toThrow(ERRORCODES.UNKNOWN_CONFIG_LEVEL);
+    });
+
+    test("Invalid documents are rejected", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const valid = conf.exportSnapshot();
+
+        expect(() => conf.importSnapshot("{not json")).toThrow(ConfigurationError);
+        expect(() => conf.importSnapshot("{not json")).toThrow(ERRORCODES.INVALID_SNAPSHOT);
+        expect(() => conf.importSnapshot(JSON.stringify({ foo: "bar" }))).toThrow(ERRORCODES.INVALID_SNAPSHOT);
+        expect(() => conf.importSnapshot({ ...valid, formatVersion: 99 })).toThrow(
+            "Unsupported snapshot format version 99"
+        );
+        expect(() => conf.importSnapshot({ ...valid, levels: { ...valid.levels, user: [] as never } })).toThrow(
+            ERRORCODES.INVALID_SNAPSHOT
+        );
+
+        const { dynamic, ...levels } = valid.levels;
+        expect(dynamic).toEqual({});
+        expect(() => conf.importSnapshot({ ...valid, levels }, { levels: [CONFIGLEVEL.DYNAMIC] })).toThrow(
+            "The level is missing from the snapshot"
+        );
+    });
+
+    test("Nothing is restored if a value fails the validation", () => {
+        const snapshot = createConfiguration().exportSnapshot();
+        snapshot.levels.dynamic = { bar: -1 };
+
+        const conf = new Configuration<TestConfig>(defaults, { schema: { bar: { type: "number", min: 0 } } });
+        const cb = vi.fn();
+        conf.subscribe([], cb);
+
+        expect(() => conf.importSnapshot(snapshot)).toThrow(ERRORCODES.VALIDATION_FAILED);
+        expect(conf.getValue("foo")).toBe("defaultA");
+        expect(conf.getValue("bar")).toBe(10);
+        expect(cb).not.toHaveBeenCalled();
+    });
+
+    test("Keys the level may not write are left out", () => {
+        const snapshot = createConfiguration().exportSnapshot();
+        const conf = new Configuration<TestConfig>(defaults, { readOnlyKeys: ["foo"] });
+
+        expect(conf.importSnapshot(snapshot)).toBe(false);
+        expect(conf.getValue("foo")).toBe("defaultA");
+        expect(conf.getValue("bar")).toBe(30);
+        expect(conf.explain("foo").blockedWrites).toHaveLength(1);
+    });
+});
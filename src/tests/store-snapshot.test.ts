@@ -0,0 +1,62 @@
+import { describe, expect, test } from "vitest";
+import { Configuration } from "../Configuration.class";
+import { IConfig } from "../interfaces/IConfigurationObject";
+
+interface TestConfig extends IConfig {
+    foo: string;
+    bar: number;
+    token: string;
+    http: { timeoutMs: number; retries: number };
+}
+
+const defaults: TestConfig = { foo: "defaultA", bar: 10, token: "secret", http: { timeoutMs: 500, retries: 3 } };
+
+describe("Store snapshots", () => {
+    test("The same snapshot is returned until the values change", () => {
+        const conf = new Configuration<TestConfig>(defaults, { secretKeys: ["token"] });
+
+        const first = conf.getSnapshot();
+        expect(first.revision).toBe(0);
+        expect(first.values).toEqual({ foo: "defaultA", bar: 10, token: "***", http: { timeoutMs: 500, retries: 3 } });
+        expect(Object.isFrozen(first)).toBe(true);
+        expect(Object.isFrozen(first.values)).toBe(true);
+        expect(conf.getSnapshot()).toBe(first);
+
+        conf.setConfig("http.timeoutMs", 1000);
+        const second = conf.getSnapshot();
+        expect(second).not.toBe(first);
+        expect(second.revision).toBe(1);
+        expect(second.getValue("http.timeoutMs")).toBe(1000);
+        expect(first.getValue("http.timeoutMs")).toBe(500);
+
+        // Writes that do not change the effective values keep the snapshot
+        conf.setConfig("http.timeoutMs", 1000);
+        conf.setEnvironmentConfig({});
+        expect(conf.getSnapshot()).toBe(second);
+    });
+
+    test("Inside a batch the snapshot keeps the values from before the batch", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const before = conf.getSnapshot();
+
+        conf.batch(() => {
+            conf.setConfig("foo", "dynamicA");
+            conf.setConfig("bar", 20);
+            expect(conf.getValue("foo")).toBe("dynamicA");
+            expect(conf.getSnapshot()).toBe(before);
+        });
+
+        const after = conf.getSnapshot();
+        expect(after.revision).toBe(before.revision + 1);
+        expect(after.values.foo).toBe("dynamicA");
+        expect(after.values.bar).toBe(20);
+
+        expect(() =>
+            conf.batch(() => {
+                conf.setConfig("foo", "rolledBack");
+                throw new Error("Failed");
+            })
+        ).toThrow("Failed");
+        expect(conf.getSnapshot()).toBe(after);
+    });
+});
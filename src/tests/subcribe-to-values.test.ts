@@ -13,7 +13,7 @@ describe("Subscribe to Configuration Values", () => {
     test("Listener is called when subscribed keys change with setValue", () => {
         const conf = new Configuration<TestConfig>({ foo: "defaultA", bar: 10 });
 
-        const cb = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cb = vi.fn();
 
         const unsubscribe = conf.subscribe(["foo"], cb);
 
@@ -32,7 +32,7 @@ describe("Subscribe to Configuration Values", () => {
     test("Listener is not called after unsubscribe", () => {
         const conf = new Configuration<TestConfig>({ foo: "defaultA", bar: 10 });
 
-        const cb = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cb = vi.fn();
 
         const unsubscribe = conf.subscribe(["bar"], cb);
 
@@ -53,8 +53,8 @@ describe("Subscribe to Configuration Values", () => {
     test("All listeners are notified only on the key changes they are interested in", () => {
         const conf = new Configuration<TestConfig>({ foo: "defaultA", bar: 10 });
 
-        const cbA = vi.fn((changedKeys: Partial<TestConfig>) => {});
-        const cbB = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cbA = vi.fn();
+        const cbB = vi.fn();
 
         conf.subscribe(["foo"], cbA);
         conf.subscribe(["bar"], cbB);
@@ -72,7 +72,7 @@ describe("Subscribe to Configuration Values", () => {
     test("If no keys are provided the subscriber is informed of all key changes", () => {
         const conf = new Configuration<TestConfig>({ foo: "defaultA", bar: 10 });
 
-        const cbA = vi.fn((changedKeys: Partial<TestConfig>) => {});
+        const cbA = vi.fn();
 
         const unsub = conf.subscribe([], cbA);
 
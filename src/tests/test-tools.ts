@@ -1,6 +1,7 @@
 import { Configuration } from "../Configuration.class";
-import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { ConfigLevel } from "../enums/CONFIGLEVEL";
 import { IConfig, ConfigValue, IConfigurationObject } from "../interfaces/IConfigurationObject";
+import { ConfigPath } from "../interfaces/IConfigPaths";
 
 /**
  * Get the value (not the configuration object) for a specific key in a specific level.
@@ -12,7 +13,7 @@ import { IConfig, ConfigValue, IConfigurationObject } from "../interfaces/IConfi
 export function getValueInLevel<T extends IConfig>(
     conf: Configuration<T>,
     key: keyof T,
-    level: CONFIGLEVEL
+    level: ConfigLevel
 ): ConfigValue | undefined {
     const configs = conf.getConfigsForLevel(level);
     const val = configs[key];
@@ -23,7 +24,7 @@ export function getValueInLevel<T extends IConfig>(
     if (typeof val !== "object") {
         return val;
     }
-    return val.value;
+    return (val as IConfigurationObject).value;
 }
 
 /**
@@ -36,7 +37,7 @@ export function getValueInLevel<T extends IConfig>(
 export function getConfigObjectInLevel<T extends IConfig>(
     conf: Configuration<T>,
     key: keyof T,
-    level: CONFIGLEVEL
+    level: ConfigLevel
 ): IConfigurationObject | undefined {
     const configs = conf.getConfigsForLevel(level);
     const val = configs[key];
@@ -54,7 +55,10 @@ export function getConfigObjectInLevel<T extends IConfig>(
  * @param key 
  * @returns 
  */
-export function getCurrentConfigObject<T extends IConfig>(conf: Configuration<T>, key: keyof T): IConfigurationObject | undefined {
+export function getCurrentConfigObject<T extends IConfig>(
+    conf: Configuration<T>,
+    key: ConfigPath<T>
+): IConfigurationObject | undefined {
     const val = conf.getConfig(key);
 
     if (!val || typeof val !== "object") {
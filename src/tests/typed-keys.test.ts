@@ -0,0 +1,106 @@
+import { describe, expect, expectTypeOf, test } from "vitest";
+import { Configuration } from "../Configuration.class";
+import { ConfigPath, KnownKeys, PathValue } from "../interfaces/IConfigPaths";
+import { IConfig, IConfigurationObject } from "../interfaces/IConfigurationObject";
+
+interface TestConfig extends IConfig {
+    counter: number;
+    title: string;
+    enabled: boolean;
+    http: { timeoutMs: number; headers: { accept: string } };
+    origins: string[];
+}
+
+const defaults: TestConfig = {
+    counter: 1,
+    title: "Shop",
+    enabled: false,
+    http: { timeoutMs: 500, headers: { accept: "json" } },
+    origins: ["https://a.example"],
+};
+
+describe("Typed keys", () => {
+    test("Keys and dot separated paths are derived from the configuration interface", () => {
+        expectTypeOf<KnownKeys<TestConfig>>().toEqualTypeOf<"counter" | "title" | "enabled" | "http" | "origins">();
+        expectTypeOf<ConfigPath<TestConfig>>().toEqualTypeOf<
+            | KnownKeys<TestConfig>
+            | "http.timeoutMs"
+            | "http.headers"
+            | "http.headers.accept"
+            | `origins.${number}`
+        >();
+        expectTypeOf<PathValue<TestConfig, "http.headers.accept">>().toEqualTypeOf<string>();
+        expectTypeOf<PathValue<TestConfig, "origins.0">>().toEqualTypeOf<string>();
+
+        // Without declared keys any string is accepted
+        expectTypeOf<ConfigPath<IConfig>>().toEqualTypeOf<string>();
+    });
+
+    test("getValue() and getSecret() return the type of the key", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        expectTypeOf(conf.getValue("counter")).toEqualTypeOf<number>();
+        expectTypeOf(conf.getValue("http")).toEqualTypeOf<TestConfig["http"]>();
+        expectTypeOf(conf.getValue("http.timeoutMs")).toEqualTypeOf<number>();
+        expectTypeOf(conf.getSecret("title")).toEqualTypeOf<string>();
+        expect(conf.getValue("http.timeoutMs")).toBe(500);
+
+        // @ts-expect-error unknown keys do not compile
+        expect(conf.getValue("missing")).toBeUndefined();
+        // @ts-expect-error unknown nested paths do not compile
+        expect(conf.getValue("http.missing")).toBeUndefined();
+    });
+
+    test("setConfig() only accepts values of the type of the key", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+
+        expect(conf.setConfig("counter", 2)).toBe(true);
+        expect(conf.setConfig("http.headers.accept", "xml")).toBe(true);
+
+        // @ts-expect-error the value must be a number
+        conf.setConfig("counter", "three");
+        // @ts-expect-error the value must be a string
+        conf.setConfig("http.headers.accept", 1);
+
+        expect(() => {
+            // @ts-expect-error unknown keys do not compile
+            conf.setConfig("missing", 1);
+        }).toThrow();
+    });
+
+    test("subscribe() callbacks receive the subscribed keys typed", () => {
+        const conf = new Configuration<TestConfig>(defaults);
+        const seen: number[] = [];
+
+        conf.subscribe(["counter", "http.timeoutMs"], (changed) => {
+            expectTypeOf(changed.counter).toEqualTypeOf<IConfigurationObject<number> | undefined>();
+            expectTypeOf(changed["http.timeoutMs"]).toEqualTypeOf<IConfigurationObject<number> | undefined>();
+            // @ts-expect-error only the subscribed keys are available
+            expect(changed.title).toBeUndefined();
+
+            if (changed.counter) {
+                seen.push(changed.counter.value);
+            }
+        });
+
+        conf.subscribe([], (config) => {
+            expectTypeOf(config.title).toEqualTypeOf<IConfigurationObject<string>>();
+        });
+
+        conf.setConfig("counter", 5);
+        expect(seen).toEqual([5]);
+    });
+
+    test("Registered instances are typed with the configuration interface", () => {
+        const conf = Configuration.register("typed", new Configuration<TestConfig>(defaults));
+
+        expectTypeOf(Configuration.getValue<TestConfig, "counter">("counter", "typed")).toEqualTypeOf<number>();
+        expect(Configuration.getValue<TestConfig>("title", "typed")).toBe("Shop");
+
+        // @ts-expect-error the value must be a boolean
+        Configuration.setConfig<TestConfig, "enabled">("enabled", "yes", "typed");
+
+        Configuration.clearInstance("typed");
+        expect(conf.getValue("counter")).toBe(1);
+    });
+});
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { IConfig, IConfigurationObject } from "../interfaces/IConfigurationObject";
+import { Configuration } from "../Configuration.class";
+import { CONFIGLEVEL } from "../enums/CONFIGLEVEL";
+import { findWritePolicy, matchesPattern } from "../helpers/writePolicies";
+
+interface TestConfig extends IConfig {
+    maintenance: boolean;
+    theme: string;
+    feature: {
+        search: boolean;
+        chat: boolean;
+    };
+    limits: {
+        uploadMb: number;
+        requestsPerMinute: number;
+    };
+}
+
+const defaults: TestConfig = {
+    maintenance: false,
+    theme: "light",
+    feature: { search: false, chat: false },
+    limits: { uploadMb: 10, requestsPerMinute: 60 },
+};
+
+describe("Write policies", () => {
+    beforeEach(() => {
+        Configuration.clearInstance();
+    });
+
+    test("Only the levels in the policy may write the key", () => {
+        const onBlockedWrite = vi.fn();
+        const conf = new Configuration<TestConfig>(defaults, {
+            writePolicies: { maintenance: [CONFIGLEVEL.ENVIRONMENT, CONFIGLEVEL.BACKEND] },
+            onBlockedWrite,
+        });
+
+        expect(conf.setBackendConfig({ maintenance: true })).toBe(true);
+        expect(conf.setUserConfig({ maintenance: false, theme: "dark" })).toBe(false);
+        expect(conf.setConfig("maintenance", false)).toBe(false);
+
+        expect(conf.getValue("maintenance")).toBe(true);
+        expect(conf.getValue("theme")).toBe("dark");
+
+        expect(onBlockedWrite).toHaveBeenCalledTimes(2);
+        expect(onBlockedWrite.mock.calls[0][0]).toMatchObject({ key: "maintenance", level: CONFIGLEVEL.USER, value: false });
+        expect(onBlockedWrite.mock.calls[1][0]).toMatchObject({ key: "maintenance", level: CONFIGLEVEL.DYNAMIC });
+        expect(conf.explain("maintenance").blockedWrites).toHaveLength(2);
+    });
+
+    test("Patterns and parent paths are matched, exact keys win over patterns", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            writePolicies: {
+                "feature.*": [CONFIGLEVEL.BACKEND],
+                "feature.search": [CONFIGLEVEL.BACKEND, CONFIGLEVEL.USER],
+                limits: [CONFIGLEVEL.ENVIRONMENT],
+            },
+        });
+
+        expect(conf.setUserConfig({ "feature.chat": true } as Partial<TestConfig>)).toBe(false);
+        expect(conf.setUserConfig({ "feature.search": true } as Partial<TestConfig>)).toBe(true);
+        expect(conf.getValue("feature")).toEqual({ search: true, chat: false });
+
+        // The policy of "limits" covers the nested values too
+        expect(conf.setBackendConfig({ "limits.uploadMb": 20 } as Partial<TestConfig>)).toBe(false);
+        expect(conf.setEnvironmentConfig({ "limits.uploadMb": 20 } as Partial<TestConfig>)).toBe(true);
+        expect(conf.getValue("limits.uploadMb")).toBe(20);
+    });
+
+    test("Read-only keys keep working together with policies", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            readOnlyKeys: ["theme"],
+            writePolicies: { theme: [CONFIGLEVEL.BACKEND, CONFIGLEVEL.USER] },
+        });
+
+        expect(conf.setUserConfig({ theme: "dark" })).toBe(false);
+        expect(conf.setEnvironmentConfig({ theme: "dark" })).toBe(false);
+        expect(conf.setBackendConfig({ theme: "blue" })).toBe(true);
+        expect(conf.getValue("theme")).toBe("blue");
+    });
+
+    test("getConfig lists the levels that can still change the value", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            writePolicies: { maintenance: [CONFIGLEVEL.ENVIRONMENT, CONFIGLEVEL.BACKEND] },
+        });
+
+        expect((conf.getConfig("maintenance") as IConfigurationObject).writableLevels).toEqual([
+            CONFIGLEVEL.ENVIRONMENT,
+            CONFIGLEVEL.BACKEND,
+        ]);
+
+        conf.setBackendConfig({ maintenance: true });
+        expect((conf.getConfig("maintenance") as IConfigurationObject).writableLevels).toEqual([CONFIGLEVEL.BACKEND]);
+
+        conf.setUserConfig({ theme: "dark" });
+        expect((conf.getConfig("theme") as IConfigurationObject).writableLevels).toEqual([
+            CONFIGLEVEL.USER,
+            CONFIGLEVEL.DYNAMIC,
+        ]);
+    });
+
+    test("isWritable tells if a level may write a key regardless of the current value", () => {
+        const conf = new Configuration<TestConfig>(defaults, {
+            readOnlyKeys: ["theme"],
+            writePolicies: { "feature.*": [CONFIGLEVEL.BACKEND] },
+        });
+        conf.setConfig("maintenance", true);
+
+        expect(conf.isWritable("maintenance", CONFIGLEVEL.USER)).toBe(true);
+        expect(conf.isWritable("maintenance", CONFIGLEVEL.DEFAULT)).toBe(false);
+        expect(conf.isWritable("theme", CONFIGLEVEL.USER)).toBe(false);
+        expect(conf.isWritable("theme", CONFIGLEVEL.BACKEND)).toBe(true);
+        expect(conf.isWritable("feature.chat", CONFIGLEVEL.USER)).toBe(false);
+        expect(conf.isWritable("feature.chat", CONFIGLEVEL.BACKEND)).toBe(true);
+    });
+
+    test("Static setConfig follows the policies of the singleton instance", () => {
+        new Configuration<TestConfig>(defaults, {
+            singleton: true,
+            writePolicies: { maintenance: [CONFIGLEVEL.BACKEND] },
+        });
+
+        expect(Configuration.setConfig<TestConfig>("maintenance", true)).toBe(false);
+        expect(Configuration.setConfig<TestConfig>("theme", "dark")).toBe(true);
+        expect(Configuration.getValue<TestConfig>("theme")).toBe("dark");
+    });
+
+    test("Pattern matching", () => {
+        expect(matchesPattern("feature.*", "feature.search")).toBe(true);
+        expect(matchesPattern("feature.*", "features")).toBe(false);
+        expect(matchesPattern("*Url", "apiUrl")).toBe(true);
+        expect(matchesPattern("a.b", "axb")).toBe(false);
+
+        const policies = { "*": [CONFIGLEVEL.BACKEND], "http.timeoutMs": [CONFIGLEVEL.USER] };
+        expect(findWritePolicy(policies, "http.timeoutMs.extra")).toEqual([CONFIGLEVEL.USER]);
+        expect(findWritePolicy(policies, "http.retries")).toEqual([CONFIGLEVEL.BACKEND]);
+        expect(findWritePolicy(undefined, "http")).toBeUndefined();
+    });
+});
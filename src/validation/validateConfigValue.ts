@@ -0,0 +1,85 @@
+import { ConfigValueType, IConfigKeySchema } from "../interfaces/IConfigSchema";
+import { ConfigValue } from "../interfaces/IConfigurationObject";
+import { isPlainObject } from "../helpers/objectPaths";
+
+/**
+ * Validate a single configuration value against its schema rules.
+ *
+ * @param value The raw value (not an IConfigurationObject)
+ * @param rules Schema rules for the key
+ * @returns The reason why the value is invalid or null if the value is valid
+ */
+export function validateConfigValue(value: ConfigValue, rules: IConfigKeySchema): string | null {
+    const type = typeOfValue(value);
+    if (rules.type !== undefined && type !== rules.type) {
+        return `Expected type ${rules.type} but got ${type}`;
+    }
+
+    if (typeof value === "number" && Number.isNaN(value)) {
+        return "Value is not a number";
+    }
+
+    const size = sizeOf(value);
+
+    if (rules.min !== undefined && size !== null && size < rules.min) {
+        return typeof value === "number" ? `Value must be at least ${rules.min}` : `Length must be at least ${rules.min}`;
+    }
+
+    if (rules.max !== undefined && size !== null && size > rules.max) {
+        return typeof value === "number" ? `Value must be at most ${rules.max}` : `Length must be at most ${rules.max}`;
+    }
+
+    if (rules.enum !== undefined && !rules.enum.includes(value)) {
+        return `Value must be one of: ${rules.enum.join(", ")}`;
+    }
+
+    if (rules.pattern !== undefined) {
+        if (typeof value !== "string") {
+            return "Pattern can only be matched against a string";
+        }
+        rules.pattern.lastIndex = 0;
+        if (!rules.pattern.test(value)) {
+            return `Value does not match pattern ${rules.pattern}`;
+        }
+    }
+
+    if (rules.validator !== undefined) {
+        const res = rules.validator(value);
+        if (res === false) {
+            return "Value was rejected by the custom validator";
+        }
+        if (typeof res === "string") {
+            return res;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Type of the value as declared in the schema. Arrays and plain objects are told apart.
+ * @param value
+ * @returns
+ */
+export function typeOfValue(value: ConfigValue): ConfigValueType | string {
+    if (Array.isArray(value)) {
+        return "array";
+    }
+    if (isPlainObject(value)) {
+        return "object";
+    }
+    return typeof value;
+}
+
+/**
+ * The size used for min/max rules: numbers use their value, strings and arrays their length
+ */
+function sizeOf(value: ConfigValue): number | null {
+    if (typeof value === "number") {
+        return value;
+    }
+    if (typeof value === "string" || Array.isArray(value)) {
+        return value.length;
+    }
+    return null;
+}
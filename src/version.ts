@@ -0,0 +1,4 @@
+/**
+ * Version of the library, keep in sync with package.json
+ */
+export const VERSION = "0.4.0";
@@ -5,18 +5,23 @@ import dts from "vite-plugin-dts";
 export default defineConfig({
     build: {
         lib: {
-            entry: "src/index.ts",
+            // The node entry is kept separate so that its file loaders never end up in the browser bundle
+            entry: {
+                index: "src/index.ts",
+                node: "src/node/index.ts",
+            },
             name: "hcconfig",
-            fileName: (format) => `index.${format}.js`,
-            formats: ["es", "cjs", "umd"],
+            fileName: (format, entryName) => `${entryName}.${format}.js`,
+            formats: ["es", "cjs"],
         },
         rollupOptions: {
-            external: ["react", "react-dom"], // add external dependencies here
+            external: ["react", "react-dom", "yaml", "smol-toml", "fs", "fs/promises"], // add external dependencies here
         },
     },
     plugins: [
         dts({
             tsconfigPath: "./tsconfig.json",
+            outDir: "dist/types",
             // rollupTypes: true,
             insertTypesEntry: true,
         }),
@@ -0,0 +1,25 @@
+import { defineConfig } from "vite";
+
+/**
+ * UMD bundle of the browser entry. Built separately because UMD does not support multiple entries.
+ */
+export default defineConfig({
+    build: {
+        emptyOutDir: false,
+        lib: {
+            entry: "src/index.ts",
+            name: "hcconfig",
+            fileName: (format) => `index.${format}.js`,
+            formats: ["umd"],
+        },
+        rollupOptions: {
+            external: ["react", "react-dom"],
+            output: {
+                globals: {
+                    react: "React",
+                    "react-dom": "ReactDOM",
+                },
+            },
+        },
+    },
+});